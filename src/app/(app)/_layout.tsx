@@ -31,6 +31,12 @@ export default function AppLayout() {
           title: 'Vault Items',
         }}
       />
+      <Stack.Screen
+        name="vault/[id]/settings"
+        options={{
+          title: 'Vault Settings',
+        }}
+      />
       <Stack.Screen
         name="vault/create"
         options={{
@@ -51,12 +57,64 @@ export default function AppLayout() {
           title: 'Item Details',
         }}
       />
+      <Stack.Screen
+        name="item/[id]/edit"
+        options={{
+          title: 'Edit Item',
+        }}
+      />
+      <Stack.Screen
+        name="item/share"
+        options={{
+          title: 'Share Link',
+          presentation: 'modal',
+        }}
+      />
+      <Stack.Screen
+        name="import-authenticator"
+        options={{
+          title: 'Import Authenticator',
+          presentation: 'modal',
+        }}
+      />
+      <Stack.Screen
+        name="generator-history"
+        options={{
+          title: 'Generator History',
+        }}
+      />
+      <Stack.Screen
+        name="weak-passwords"
+        options={{
+          title: 'Weak Passwords',
+        }}
+      />
       <Stack.Screen
         name="settings"
         options={{
           title: 'Settings',
         }}
       />
+      <Stack.Screen
+        name="change-password"
+        options={{
+          title: 'Change Master Password',
+          presentation: 'modal',
+        }}
+      />
+      <Stack.Screen
+        name="emergency-access"
+        options={{
+          title: 'Emergency Access',
+        }}
+      />
+      <Stack.Screen
+        name="recovery-kit"
+        options={{
+          title: 'Recovery Code',
+          presentation: 'modal',
+        }}
+      />
     </Stack>
   );
 }
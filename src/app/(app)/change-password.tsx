@@ -0,0 +1,257 @@
+/**
+ * Change Master Password Screen
+ *
+ * Verifies the current password, then rotates the account key:
+ * every item is re-encrypted under a new key wrapped by the new password
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { useRouter } from 'expo-router';
+import { useAuthStore } from '@/store/auth.store';
+import { useVaultItemStore } from '@/store/vault-item.store';
+import { Input } from '@/components/Input';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
+import { getMasterPasswordError } from '@/utils/password-strength';
+import ENV from '@/config/env';
+
+export default function ChangePasswordScreen() {
+  const router = useRouter();
+  const { user, changeMasterPassword } = useAuthStore();
+  const { clearDecryptedItems } = useVaultItemStore();
+
+  const [formData, setFormData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+
+  const [errors, setErrors] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = (field: keyof typeof formData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: '' }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors = {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    };
+
+    if (!formData.currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+
+    const passwordError = formData.newPassword
+      ? getMasterPasswordError(formData.newPassword, [
+          user?.email,
+          user?.firstName,
+          user?.lastName,
+        ])
+      : null;
+
+    if (!formData.newPassword) {
+      newErrors.newPassword = 'New password is required';
+    } else if (passwordError) {
+      newErrors.newPassword = passwordError;
+    } else if (formData.newPassword === formData.currentPassword) {
+      newErrors.newPassword = 'New password must be different';
+    }
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return !Object.values(newErrors).some((error) => error !== '');
+  };
+
+  const handleChangePassword = async () => {
+    if (!validateForm()) return;
+
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await changeMasterPassword(
+        formData.currentPassword,
+        formData.newPassword,
+        (done, total) => setProgress({ done, total })
+      );
+
+      // Cached plaintext and ciphertext belong to the old key
+      clearDecryptedItems();
+
+      // Keep biometric unlock working with the new password
+      const biometricPassword = await SecureStore.getItemAsync(
+        ENV.STORAGE_KEYS.BIOMETRIC_PASSWORD
+      );
+      if (biometricPassword) {
+        await SecureStore.setItemAsync(
+          ENV.STORAGE_KEYS.BIOMETRIC_PASSWORD,
+          formData.newPassword
+        );
+      }
+
+      Alert.alert('Success', 'Your master password has been changed', [
+        {
+          text: 'OK',
+          onPress: () => router.back(),
+        },
+      ]);
+    } catch (err: any) {
+      clearDecryptedItems();
+      setError(err.message || 'Failed to change master password');
+    } finally {
+      setIsSubmitting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError(null)} />
+        )}
+
+        <Input
+          label="Current Master Password"
+          placeholder="Enter your current password"
+          value={formData.currentPassword}
+          onChangeText={(value) => updateField('currentPassword', value)}
+          error={errors.currentPassword}
+          isPassword
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSubmitting}
+        />
+
+        <Input
+          label="New Master Password"
+          placeholder="Create a strong password"
+          value={formData.newPassword}
+          onChangeText={(value) => updateField('newPassword', value)}
+          error={errors.newPassword}
+          isPassword
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSubmitting}
+        />
+
+        <PasswordStrengthMeter
+          password={formData.newPassword}
+          userInputs={[user?.email, user?.firstName, user?.lastName]}
+        />
+
+        <Input
+          label="Confirm New Password"
+          placeholder="Re-enter your new password"
+          value={formData.confirmPassword}
+          onChangeText={(value) => updateField('confirmPassword', value)}
+          error={errors.confirmPassword}
+          isPassword
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSubmitting}
+        />
+
+        {progress && (
+          <Text style={styles.progressText}>
+            Re-encrypting items… {progress.done}/{progress.total}
+          </Text>
+        )}
+
+        <View style={styles.actions}>
+          <Button
+            title="Change Password"
+            onPress={handleChangePassword}
+            loading={isSubmitting}
+          />
+          <Button
+            title="Cancel"
+            onPress={() => router.back()}
+            variant="secondary"
+            disabled={isSubmitting}
+            style={styles.cancelButton}
+          />
+        </View>
+
+        <View style={styles.warningNote}>
+          <Text style={styles.warningIcon}>⚠️</Text>
+          <Text style={styles.warningText}>
+            All items are re-encrypted with a new key. Keep the app open until
+            this finishes. If it is interrupted, unlock with your current
+            password and the change will be completed or safely rolled back.
+          </Text>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    padding: 24,
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  actions: {
+    marginTop: 16,
+  },
+  cancelButton: {
+    marginTop: 8,
+  },
+  warningNote: {
+    flexDirection: 'row',
+    backgroundColor: '#FEF3C7',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 16,
+    alignItems: 'flex-start',
+  },
+  warningIcon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 11,
+    color: '#92400E',
+    lineHeight: 16,
+  },
+});
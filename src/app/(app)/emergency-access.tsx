@@ -0,0 +1,609 @@
+/**
+ * Emergency Access Screen
+ *
+ * Trusted contacts: people who may request view-only access to the user's
+ * vaults. A request is granted after the waiting period unless denied.
+ * Keys of vaults created later are shared on request, and only with
+ * contacts whose sharing key still matches the one verified.
+ * Also lists users who trust this user, with accept/request/take over.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuthStore } from '@/store/auth.store';
+import { useVaultStore } from '@/store/vault.store';
+import { useEmergencyAccessStore } from '@/store/emergency-access.store';
+import { Input } from '@/components/Input';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { isValidEmail } from '@/utils/validation';
+import { getPublicKeyFingerprint } from '@/crypto';
+import {
+  EMERGENCY_WAIT_DAY_OPTIONS,
+  getEmergencyAccessReadyAt,
+  isEmergencyAccessGranted,
+  formatTimeRemaining,
+} from '@/utils/emergency-access';
+import { EmergencyAccess } from '@/types';
+
+const COUNTDOWN_REFRESH_MS = 60000;
+
+export default function EmergencyAccessScreen() {
+  const router = useRouter();
+  const { user, encryptionKeyId, keyPairId } = useAuthStore();
+  const { findInvitee } = useVaultStore();
+  const {
+    trustedContacts,
+    grantedAccess,
+    contactKeyStatus,
+    error,
+    fetchEmergencyAccess,
+    shareNewVaults,
+    verifyContactKey,
+    inviteContact,
+    approveRequest,
+    denyRequest,
+    acceptInvitation,
+    requestAccess,
+    takeOverAccess,
+    removeEmergencyAccess,
+    clearError,
+  } = useEmergencyAccessStore();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [waitDays, setWaitDays] = useState(7);
+  const [isInviting, setIsInviting] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+
+  useEffect(() => {
+    load();
+  }, [encryptionKeyId, keyPairId]);
+
+  // Keep countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), COUNTDOWN_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const load = async () => {
+    if (!encryptionKeyId) return;
+
+    try {
+      await fetchEmergencyAccess();
+    } catch (err) {
+      // Error handled by store
+    }
+    setNow(new Date());
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await load();
+    setRefreshing(false);
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (err: any) {
+      Alert.alert('Error', err.message || failure);
+    }
+  };
+
+  const handleInvite = async () => {
+    const trimmedEmail = email.trim();
+    if (!isValidEmail(trimmedEmail)) {
+      setEmailError('Invalid email format');
+      return;
+    }
+    if (trimmedEmail.toLowerCase() === user?.email.toLowerCase()) {
+      setEmailError('You cannot be your own emergency contact');
+      return;
+    }
+    if (!encryptionKeyId || !keyPairId) {
+      Alert.alert('Error', 'Sharing key not available. Please unlock the app.');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const invitee = await findInvitee(trimmedEmail);
+
+      Alert.alert(
+        'Verify Sharing Key',
+        `Ask ${invitee.user.email} to read out the sharing key shown in their settings. It must match:\n\n${invitee.fingerprint}`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => setIsInviting(false) },
+          {
+            text: 'Keys Match',
+            onPress: async () => {
+              try {
+                await inviteContact(
+                  invitee.user,
+                  waitDays,
+                  encryptionKeyId,
+                  keyPairId
+                );
+                setEmail('');
+              } catch (err: any) {
+                Alert.alert('Error', err.message || 'Failed to invite contact');
+              } finally {
+                setIsInviting(false);
+              }
+            },
+          },
+        ]
+      );
+    } catch (err: any) {
+      setEmailError(err.message || 'Failed to look up user');
+      setIsInviting(false);
+    }
+  };
+
+  const handleShareNewVaults = async () => {
+    if (!encryptionKeyId || !keyPairId) {
+      Alert.alert('Error', 'Sharing key not available. Please unlock the app.');
+      return;
+    }
+
+    setIsSharing(true);
+    try {
+      const skipped = await shareNewVaults(encryptionKeyId, keyPairId);
+      if (skipped.length > 0) {
+        Alert.alert(
+          'Some Contacts Skipped',
+          `New vaults were not shared with ${skipped.join(', ')}. Their sharing key is not verified or has changed. Verify it with them before sharing.`
+        );
+      } else {
+        Alert.alert('Vaults Shared', 'All trusted contacts can reach your vaults.');
+      }
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to share vaults');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleVerifyKey = (access: EmergencyAccess) => {
+    runAction(async () => {
+      const fingerprint = await getPublicKeyFingerprint(access.granteePublicKey);
+
+      Alert.alert(
+        'Verify Sharing Key',
+        `Ask ${access.granteeEmail} to read out the sharing key shown in their settings. It must match:\n\n${fingerprint}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Keys Match',
+            onPress: () =>
+              runAction(
+                () => verifyContactKey(access.id),
+                'Failed to verify sharing key'
+              ),
+          },
+        ]
+      );
+    }, 'Failed to read sharing key');
+  };
+
+  const handleRemove = (access: EmergencyAccess, asGrantor: boolean) => {
+    Alert.alert(
+      asGrantor ? 'Remove Trusted Contact' : 'Give Up Emergency Access',
+      asGrantor
+        ? `${access.granteeEmail} will lose emergency access, including any vaults already opened.`
+        : `You will no longer be able to request access to ${access.grantorEmail}'s vaults.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            runAction(
+              () => removeEmergencyAccess(access.id),
+              'Failed to remove emergency access'
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleDeny = (access: EmergencyAccess) => {
+    Alert.alert(
+      'Deny Request',
+      `${access.granteeEmail} will not get access. They can request again later.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Deny',
+          style: 'destructive',
+          onPress: () =>
+            runAction(() => denyRequest(access.id), 'Failed to deny request'),
+        },
+      ]
+    );
+  };
+
+  const handleApprove = (access: EmergencyAccess) => {
+    Alert.alert(
+      'Approve Request',
+      `${access.granteeEmail} gets view-only access to your vaults right away.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Approve',
+          onPress: () =>
+            runAction(() => approveRequest(access.id), 'Failed to approve request'),
+        },
+      ]
+    );
+  };
+
+  const handleRequest = (access: EmergencyAccess) => {
+    Alert.alert(
+      'Request Emergency Access',
+      `${access.grantorEmail} will be notified. If they do not deny it within ${access.waitDays} ${access.waitDays === 1 ? 'day' : 'days'}, you get view-only access to their vaults.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Request',
+          onPress: () =>
+            runAction(() => requestAccess(access.id), 'Failed to request access'),
+        },
+      ]
+    );
+  };
+
+  const handleTakeOver = (access: EmergencyAccess) => {
+    if (!encryptionKeyId) return;
+
+    runAction(async () => {
+      await takeOverAccess(access.id, encryptionKeyId, keyPairId);
+      Alert.alert(
+        'Access Granted',
+        `${access.grantorEmail}'s vaults are now in your vault list (view only).`,
+        [{ text: 'OK', onPress: () => router.replace('/(app)/vaults') }]
+      );
+    }, 'Failed to open vaults');
+  };
+
+  const getStatusText = (access: EmergencyAccess): string => {
+    if (isEmergencyAccessGranted(access, now)) {
+      return access.takenOverAt ? 'Access in use' : 'Access granted';
+    }
+
+    switch (access.status) {
+      case 'invited':
+        return 'Invitation pending';
+      case 'accepted':
+        return `Can request access · ${access.waitDays} ${access.waitDays === 1 ? 'day' : 'days'} wait`;
+      case 'requested': {
+        const readyAt = getEmergencyAccessReadyAt(access)!;
+        return `Access requested · granted in ${formatTimeRemaining(readyAt, now)}`;
+      }
+      default:
+        return access.status;
+    }
+  };
+
+  const renderTrustedContact = (access: EmergencyAccess) => {
+    const pending =
+      access.status === 'requested' && !isEmergencyAccessGranted(access, now);
+    const keyStatus = contactKeyStatus[access.id];
+
+    return (
+      <View
+        key={access.id}
+        style={[
+          styles.card,
+          (pending || keyStatus === 'changed') && styles.cardAlert,
+        ]}
+      >
+        <Text style={styles.cardTitle}>{access.granteeEmail}</Text>
+        <Text style={styles.cardStatus}>{getStatusText(access)}</Text>
+        {keyStatus === 'changed' && (
+          <Text style={styles.keyWarning}>
+            Sharing key changed since you verified it. New vaults are not
+            shared until you verify it again.
+          </Text>
+        )}
+        {keyStatus === 'unverified' && (
+          <Text style={styles.keyWarning}>
+            Sharing key not verified on this device. New vaults are not shared.
+          </Text>
+        )}
+
+        <View style={styles.cardActions}>
+          {pending && (
+            <>
+              <Button
+                title="Deny"
+                onPress={() => handleDeny(access)}
+                variant="danger"
+                style={styles.actionButton}
+              />
+              <Button
+                title="Approve"
+                onPress={() => handleApprove(access)}
+                variant="secondary"
+                style={styles.actionButton}
+              />
+            </>
+          )}
+          {keyStatus && keyStatus !== 'verified' && (
+            <Button
+              title="Verify Key"
+              onPress={() => handleVerifyKey(access)}
+              variant="secondary"
+              style={styles.actionButton}
+            />
+          )}
+          <TouchableOpacity onPress={() => handleRemove(access, true)}>
+            <Text style={styles.removeText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderGrantedAccess = (access: EmergencyAccess) => {
+    const granted = isEmergencyAccessGranted(access, now);
+
+    return (
+      <View
+        key={access.id}
+        style={[
+          styles.card,
+          (access.status === 'invited' || (granted && !access.takenOverAt)) &&
+            styles.cardAlert,
+        ]}
+      >
+        <Text style={styles.cardTitle}>{access.grantorEmail}</Text>
+        <Text style={styles.cardStatus}>
+          {access.status === 'invited'
+            ? 'Wants you as an emergency contact'
+            : getStatusText(access)}
+        </Text>
+
+        <View style={styles.cardActions}>
+          {access.status === 'invited' && (
+            <Button
+              title="Accept"
+              onPress={() =>
+                runAction(
+                  () => acceptInvitation(access.id),
+                  'Failed to accept invitation'
+                )
+              }
+              style={styles.actionButton}
+            />
+          )}
+          {access.status === 'accepted' && (
+            <Button
+              title="Request Access"
+              onPress={() => handleRequest(access)}
+              style={styles.actionButton}
+            />
+          )}
+          {granted && !access.takenOverAt && (
+            <Button
+              title="Open Vaults"
+              onPress={() => handleTakeOver(access)}
+              style={styles.actionButton}
+            />
+          )}
+          <TouchableOpacity onPress={() => handleRemove(access, false)}>
+            <Text style={styles.removeText}>
+              {access.status === 'invited' ? 'Decline' : 'Leave'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+      }
+    >
+      {error && <ErrorMessage message={error} onRetry={load} onDismiss={clearError} />}
+
+      <Text style={styles.sectionTitle}>Your Trusted Contacts</Text>
+      <Text style={styles.sectionDescription}>
+        They can request view-only access to your vaults. You are notified and
+        can deny the request until the waiting period ends.
+      </Text>
+
+      {trustedContacts.map(renderTrustedContact)}
+
+      {trustedContacts.length > 0 && (
+        <Button
+          title="Share New Vaults"
+          onPress={handleShareNewVaults}
+          loading={isSharing}
+          variant="secondary"
+          style={styles.shareButton}
+        />
+      )}
+
+      <View style={styles.inviteCard}>
+        <Input
+          label="Invite by Email"
+          placeholder="trusted.person@example.com"
+          value={email}
+          onChangeText={(value) => {
+            setEmail(value);
+            setEmailError('');
+          }}
+          error={emailError}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isInviting}
+        />
+
+        <Text style={styles.label}>Waiting period</Text>
+        <View style={styles.options}>
+          {EMERGENCY_WAIT_DAY_OPTIONS.map((days) => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.option, waitDays === days && styles.optionSelected]}
+              onPress={() => setWaitDays(days)}
+              disabled={isInviting}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  waitDays === days && styles.optionTextSelected,
+                ]}
+              >
+                {days}d
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Button
+          title="Invite Trusted Contact"
+          onPress={handleInvite}
+          loading={isInviting}
+          disabled={!email.trim()}
+        />
+      </View>
+
+      <Text style={styles.sectionTitle}>People Who Trust You</Text>
+      {grantedAccess.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Nobody has added you as an emergency contact yet.
+        </Text>
+      ) : (
+        grantedAccess.map(renderGrantedAccess)
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    color: '#6B7280',
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  cardAlert: {
+    borderColor: '#F59E0B',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  cardStatus: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  keyWarning: {
+    fontSize: 13,
+    color: '#B45309',
+    marginTop: 6,
+    lineHeight: 18,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  actionButton: {
+    marginRight: 8,
+    paddingHorizontal: 16,
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
+  shareButton: {
+    marginBottom: 12,
+  },
+  inviteCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  optionSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginBottom: 24,
+  },
+});
@@ -0,0 +1,203 @@
+/**
+ * Generator History Screen
+ *
+ * Recently generated passwords, passphrases and usernames, so a value from
+ * an unfinished signup can still be copied. Stored encrypted on this device.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useGeneratorStore } from '@/store/generator.store';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { copyToClipboard } from '@/utils/clipboard';
+import { GeneratedValueKind, GeneratorHistoryEntry } from '@/types';
+
+const KIND_LABELS: Record<GeneratedValueKind, string> = {
+  password: '🔑 Password',
+  passphrase: '🎲 Passphrase',
+  username: '👤 Username',
+};
+
+export default function GeneratorHistoryScreen() {
+  const { history, error, loadHistory, clearHistory, clearError } =
+    useGeneratorStore();
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const toggleReveal = (value: string) => {
+    setRevealed((prev) => {
+      const next = new Set(prev);
+      if (next.has(value)) {
+        next.delete(value);
+      } else {
+        next.add(value);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = async (entry: GeneratorHistoryEntry) => {
+    await copyToClipboard(entry.value);
+    Alert.alert(
+      'Copied',
+      `${entry.kind === 'username' ? 'Username' : 'Password'} copied to clipboard (will clear in 60s)`
+    );
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      'Clear History',
+      'Generated values not saved in a vault item will be gone for good.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Clear', style: 'destructive', onPress: clearHistory },
+      ]
+    );
+  };
+
+  const renderEntry = ({ item }: { item: GeneratorHistoryEntry }) => {
+    const isSecret = item.kind !== 'username';
+    const isVisible = !isSecret || revealed.has(item.value);
+
+    return (
+      <View style={styles.entry}>
+        <View style={styles.entryInfo}>
+          <Text style={styles.entryValue} numberOfLines={2} selectable={isVisible}>
+            {isVisible ? item.value : '•'.repeat(Math.min(item.value.length, 16))}
+          </Text>
+          <Text style={styles.entryMeta}>
+            {KIND_LABELS[item.kind]} · {new Date(item.createdAt).toLocaleString()}
+          </Text>
+        </View>
+        {isSecret && (
+          <TouchableOpacity
+            style={styles.entryButton}
+            onPress={() => toggleReveal(item.value)}
+          >
+            <Text style={styles.entryButtonText}>{isVisible ? '🙈' : '👁️'}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.entryButton}
+          onPress={() => handleCopy(item)}
+        >
+          <Text style={styles.entryButtonText}>📋</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyIcon}>🕘</Text>
+      <Text style={styles.emptyTitle}>Nothing Generated Yet</Text>
+      <Text style={styles.emptyText}>
+        Passwords, passphrases and usernames you generate show up here
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {error && <ErrorMessage message={error} onDismiss={clearError} />}
+
+      <FlatList
+        data={history}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.value}
+        contentContainerStyle={[
+          styles.listContent,
+          history.length === 0 && styles.emptyContent,
+        ]}
+        ListEmptyComponent={renderEmptyState}
+      />
+
+      {history.length > 0 && (
+        <View style={styles.footer}>
+          <Button title="Clear History" onPress={handleClear} variant="danger" />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  listContent: {
+    padding: 16,
+  },
+  emptyContent: {
+    flex: 1,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryValue: {
+    fontSize: 16,
+    color: '#1F2937',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    marginBottom: 4,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  entryButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  entryButtonText: {
+    fontSize: 20,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyIcon: {
+    fontSize: 80,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+});
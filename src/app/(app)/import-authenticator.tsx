@@ -0,0 +1,376 @@
+/**
+ * Import Authenticator Codes Screen
+ *
+ * Turns otpauth:// links and Google Authenticator exports
+ * (otpauth-migration://) into password items with TOTP secrets
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import { useVaultStore } from '@/store/vault.store';
+import { useVaultItemStore } from '@/store/vault-item.store';
+import { Input } from '@/components/Input';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import {
+  parseAuthenticatorImport,
+  AuthenticatorImportResult,
+} from '@/utils/authenticator-import';
+import { canEditItems, getVaultRole } from '@/utils/vault-permissions';
+import { VaultItemType, PasswordItemData } from '@/types';
+
+export default function ImportAuthenticatorScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ vaultId?: string }>();
+  const { createItem } = useVaultItemStore();
+
+  // Only vaults the user can add items to (and has unlocked)
+  const vaults = useVaultStore((state) => state.vaults).filter(
+    (vault) => vault.keyId && canEditItems(getVaultRole(vault))
+  );
+
+  const [input, setInput] = useState('');
+  const [parsed, setParsed] = useState<AuthenticatorImportResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [vaultId, setVaultId] = useState<string | undefined>(
+    params.vaultId ?? vaults[0]?.id
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const updateInput = (text: string) => {
+    setInput(text);
+    setError(null);
+
+    if (!text.trim()) {
+      setParsed(null);
+      setSelected(new Set());
+      return;
+    }
+
+    const result = parseAuthenticatorImport(text);
+    setParsed(result);
+    setSelected(new Set(result.accounts.map((_, index) => index)));
+  };
+
+  const pasteInput = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (text) {
+      updateInput(text);
+    }
+  };
+
+  const toggleAccount = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const vault = vaults.find((v) => v.id === vaultId);
+    if (!parsed || selected.size === 0) {
+      Alert.alert('Error', 'Select at least one account to import');
+      return;
+    }
+    if (!vault?.keyId) {
+      Alert.alert('Error', 'Choose a vault to import into');
+      return;
+    }
+
+    const accounts = parsed.accounts.filter((_, index) => selected.has(index));
+    setError(null);
+    setProgress(0);
+
+    let imported = 0;
+    try {
+      for (const account of accounts) {
+        const itemData: PasswordItemData = {
+          username: account.accountName,
+          password: '',
+          totp: account.totp,
+        };
+        await createItem(
+          vault.id,
+          VaultItemType.PASSWORD,
+          account.name,
+          itemData,
+          vault.keyId
+        );
+        imported++;
+        setProgress(imported);
+      }
+    } catch (err: any) {
+      setError(
+        `Imported ${imported} of ${accounts.length} accounts. ${
+          err.message || 'Failed to import account'
+        }`
+      );
+      setProgress(null);
+      return;
+    }
+
+    setProgress(null);
+    Alert.alert(
+      'Import Complete',
+      `Added ${imported} ${imported === 1 ? 'account' : 'accounts'} to "${vault.name}"`,
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
+  };
+
+  const isImporting = progress !== null;
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && <ErrorMessage message={error} onDismiss={() => setError(null)} />}
+
+        <Text style={styles.description}>
+          Paste otpauth:// links or a Google Authenticator export
+          (Transfer accounts → Export, then scan the QR code with a QR reader
+          and copy the otpauth-migration:// link).
+        </Text>
+
+        <View>
+          <Input
+            label="Links"
+            placeholder="otpauth-migration://offline?data=..."
+            value={input}
+            onChangeText={updateInput}
+            multiline
+            numberOfLines={4}
+            style={styles.linksInput}
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!isImporting}
+          />
+          <TouchableOpacity
+            style={styles.pasteButton}
+            onPress={pasteInput}
+            disabled={isImporting}
+          >
+            <Text style={styles.pasteButtonText}>📋 Paste</Text>
+          </TouchableOpacity>
+        </View>
+
+        {parsed && (
+          <>
+            {parsed.batch && (
+              <Text style={styles.hint}>
+                This is QR code {parsed.batch.index + 1} of {parsed.batch.size}{' '}
+                from the export - import the others too.
+              </Text>
+            )}
+
+            {parsed.skipped.map((reason, index) => (
+              <Text key={`skipped-${index}`} style={styles.skipped}>
+                ⚠️ Skipped: {reason}
+              </Text>
+            ))}
+
+            <Text style={styles.label}>
+              Accounts ({selected.size} of {parsed.accounts.length} selected)
+            </Text>
+            {parsed.accounts.map((account, index) => (
+              <TouchableOpacity
+                key={`${account.totp.secret}-${index}`}
+                style={styles.row}
+                onPress={() => toggleAccount(index)}
+                disabled={isImporting}
+              >
+                <Text style={styles.checkbox}>
+                  {selected.has(index) ? '☑️' : '⬜️'}
+                </Text>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{account.name}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {account.accountName ? `${account.accountName} · ` : ''}
+                    {account.totp.encoding === 'steam'
+                      ? 'Steam Guard'
+                      : `${account.totp.digits} digits · ${account.totp.algorithm}`}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+
+            <Text style={styles.label}>Import into</Text>
+            {vaults.length === 0 ? (
+              <Text style={styles.hint}>
+                You have no vaults you can add items to.
+              </Text>
+            ) : (
+              vaults.map((vault) => (
+                <TouchableOpacity
+                  key={vault.id}
+                  style={[styles.row, vaultId === vault.id && styles.rowSelected]}
+                  onPress={() => setVaultId(vault.id)}
+                  disabled={isImporting}
+                >
+                  <Text style={styles.checkbox}>{vault.icon || '🔐'}</Text>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{vault.name}</Text>
+                    <Text style={styles.rowSubtitle}>
+                      {vault.itemCount} {vault.itemCount === 1 ? 'item' : 'items'}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))
+            )}
+          </>
+        )}
+
+        <View style={styles.actions}>
+          <Button
+            title={
+              isImporting
+                ? `Importing ${progress}/${selected.size}...`
+                : 'Import Accounts'
+            }
+            onPress={handleImport}
+            loading={isImporting}
+            disabled={!parsed || selected.size === 0 || !vaultId}
+          />
+          <Button
+            title="Cancel"
+            onPress={() => router.back()}
+            variant="secondary"
+            disabled={isImporting}
+            style={styles.cancelButton}
+          />
+        </View>
+
+        <View style={styles.securityNote}>
+          <Text style={styles.securityIcon}>🔐</Text>
+          <Text style={styles.securityText}>
+            Authenticator keys are encrypted on your device. Clear the export
+            from your clipboard once the import is done.
+          </Text>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    padding: 24,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  linksInput: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  pasteButton: {
+    position: 'absolute',
+    right: 12,
+    top: 36,
+    backgroundColor: '#3B82F6',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+  },
+  pasteButtonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  skipped: {
+    fontSize: 13,
+    color: '#92400E',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  rowSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EFF6FF',
+  },
+  checkbox: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  actions: {
+    marginTop: 16,
+  },
+  cancelButton: {
+    marginTop: 8,
+  },
+  securityNote: {
+    flexDirection: 'row',
+    backgroundColor: '#F0FDF4',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  securityIcon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  securityText: {
+    flex: 1,
+    fontSize: 11,
+    color: '#166534',
+    lineHeight: 16,
+  },
+});
@@ -13,11 +13,30 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useVaultItemStore } from '@/store/vault-item.store';
-import { useAuthStore } from '@/store/auth.store';
+import { useVaultStore } from '@/store/vault.store';
 import { Loading } from '@/components/Loading';
 import { Button } from '@/components/Button';
+import { TotpCode } from '@/components/TotpCode';
 import { copyToClipboard } from '@/utils/clipboard';
-import { PasswordItemData } from '@/types';
+import {
+  VaultItemType,
+  PasswordItemData,
+  SecureNoteData,
+  CreditCardData,
+} from '@/types';
+import { canEditItems, getVaultRole } from '@/utils/vault-permissions';
+import {
+  formatCardNumber,
+  maskCardNumber,
+  getCardBrand,
+  CARD_BRAND_LABELS,
+} from '@/utils/validation';
+
+const ITEM_ICONS: Record<VaultItemType, string> = {
+  [VaultItemType.PASSWORD]: '🔑',
+  [VaultItemType.NOTE]: '📝',
+  [VaultItemType.CARD]: '💳',
+};
 
 export default function ItemDetailScreen() {
   const router = useRouter();
@@ -26,22 +45,27 @@ export default function ItemDetailScreen() {
     vaultId: string;
   }>();
   const { items, decryptedItems, decryptItem, deleteItem } = useVaultItemStore();
-  const { encryptionKey } = useAuthStore();
+  const vault = useVaultStore((state) =>
+    state.vaults.find((v) => v.id === vaultId)
+  );
+  const keyId = vault?.keyId;
 
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [showCardNumber, setShowCardNumber] = useState(false);
+  const [showCvv, setShowCvv] = useState(false);
 
   const item = items.find((i) => i.id === itemId);
   const decryptedItem = decryptedItems.get(itemId!);
 
   useEffect(() => {
-    if (item && !decryptedItem && encryptionKey) {
+    if (item && !decryptedItem && keyId) {
       handleDecrypt();
     }
-  }, [item, encryptionKey]);
+  }, [item, keyId]);
 
   const handleDecrypt = async () => {
-    if (!encryptionKey) {
+    if (!keyId) {
       Alert.alert(
         'Locked',
         'Please unlock the app first',
@@ -58,7 +82,7 @@ export default function ItemDetailScreen() {
 
     setIsDecrypting(true);
     try {
-      await decryptItem(itemId!, encryptionKey);
+      await decryptItem(itemId!, keyId);
     } catch (err) {
       Alert.alert(
         'Decryption Failed',
@@ -116,78 +140,204 @@ export default function ItemDetailScreen() {
   }
 
   const passwordData = decryptedItem.data as PasswordItemData;
+  const noteData = decryptedItem.data as SecureNoteData;
+  const cardData = decryptedItem.data as CreditCardData;
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <View style={styles.header}>
-        <Text style={styles.icon}>🔑</Text>
+        <Text style={styles.icon}>{ITEM_ICONS[item.type] ?? '📄'}</Text>
         <Text style={styles.name}>{item.name}</Text>
         <Text style={styles.type}>
           {item.type.replace('_', ' ').toUpperCase()}
         </Text>
       </View>
 
-      <View style={styles.section}>
-        <View style={styles.field}>
-          <Text style={styles.fieldLabel}>Username/Email</Text>
-          <View style={styles.fieldValue}>
-            <Text style={styles.fieldText}>{passwordData.username}</Text>
-            <TouchableOpacity
-              onPress={() => handleCopy(passwordData.username, 'Username')}
-              style={styles.copyButton}
-            >
-              <Text style={styles.copyText}>📋</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-
-        <View style={styles.field}>
-          <Text style={styles.fieldLabel}>Password</Text>
-          <View style={styles.fieldValue}>
-            <Text style={styles.fieldText}>
-              {showPassword ? passwordData.password : '••••••••••••'}
-            </Text>
-            <View style={styles.fieldActions}>
+      {item.type === VaultItemType.PASSWORD && (
+        <View style={styles.section}>
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Username/Email</Text>
+            <View style={styles.fieldValue}>
+              <Text style={styles.fieldText}>{passwordData.username}</Text>
               <TouchableOpacity
-                onPress={() => setShowPassword(!showPassword)}
-                style={styles.actionButton}
+                onPress={() => handleCopy(passwordData.username, 'Username')}
+                style={styles.copyButton}
               >
-                <Text style={styles.actionText}>
-                  {showPassword ? '🙈' : '👁️'}
-                </Text>
+                <Text style={styles.copyText}>📋</Text>
               </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Imported authenticator-only items have no password */}
+          {!!passwordData.password && (
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Password</Text>
+              <View style={styles.fieldValue}>
+                <Text style={styles.fieldText}>
+                  {showPassword ? passwordData.password : '••••••••••••'}
+                </Text>
+                <View style={styles.fieldActions}>
+                  <TouchableOpacity
+                    onPress={() => setShowPassword(!showPassword)}
+                    style={styles.actionButton}
+                  >
+                    <Text style={styles.actionText}>
+                      {showPassword ? '🙈' : '👁️'}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleCopy(passwordData.password, 'Password')}
+                    style={styles.actionButton}
+                  >
+                    <Text style={styles.actionText}>📋</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          )}
+
+          {passwordData.totp && (
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>
+                Authenticator Code
+                {passwordData.totp.issuer ? ` · ${passwordData.totp.issuer}` : ''}
+              </Text>
+              <TotpCode
+                config={passwordData.totp}
+                onCopy={(code) => handleCopy(code, 'Code')}
+              />
+            </View>
+          )}
+
+          {passwordData.url && (
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Website</Text>
+              <View style={styles.fieldValue}>
+                <Text style={styles.fieldText}>{passwordData.url}</Text>
+                <TouchableOpacity
+                  onPress={() => handleCopy(passwordData.url!, 'URL')}
+                  style={styles.copyButton}
+                >
+                  <Text style={styles.copyText}>📋</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {passwordData.notes && (
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Notes</Text>
+              <Text style={styles.notesText}>{passwordData.notes}</Text>
+            </View>
+          )}
+        </View>
+      )}
+
+      {item.type === VaultItemType.NOTE && (
+        <View style={styles.section}>
+          <View style={styles.field}>
+            <View style={styles.fieldHeader}>
+              <Text style={styles.fieldLabel}>Note</Text>
               <TouchableOpacity
-                onPress={() => handleCopy(passwordData.password, 'Password')}
-                style={styles.actionButton}
+                onPress={() => handleCopy(noteData.content, 'Note')}
+                style={styles.copyButton}
               >
-                <Text style={styles.actionText}>📋</Text>
+                <Text style={styles.copyText}>📋</Text>
               </TouchableOpacity>
             </View>
+            <Text style={styles.notesText} selectable>
+              {noteData.content}
+            </Text>
           </View>
         </View>
+      )}
 
-        {passwordData.url && (
+      {item.type === VaultItemType.CARD && (
+        <View style={styles.section}>
           <View style={styles.field}>
-            <Text style={styles.fieldLabel}>Website</Text>
+            <Text style={styles.fieldLabel}>Cardholder Name</Text>
             <View style={styles.fieldValue}>
-              <Text style={styles.fieldText}>{passwordData.url}</Text>
+              <Text style={styles.fieldText}>{cardData.cardholderName}</Text>
               <TouchableOpacity
-                onPress={() => handleCopy(passwordData.url!, 'URL')}
+                onPress={() => handleCopy(cardData.cardholderName, 'Cardholder name')}
                 style={styles.copyButton}
               >
                 <Text style={styles.copyText}>📋</Text>
               </TouchableOpacity>
             </View>
           </View>
-        )}
 
-        {passwordData.notes && (
           <View style={styles.field}>
-            <Text style={styles.fieldLabel}>Notes</Text>
-            <Text style={styles.notesText}>{passwordData.notes}</Text>
+            <Text style={styles.fieldLabel}>
+              Card Number · {CARD_BRAND_LABELS[getCardBrand(cardData.cardNumber)]}
+            </Text>
+            <View style={styles.fieldValue}>
+              <Text style={styles.fieldText}>
+                {showCardNumber
+                  ? formatCardNumber(cardData.cardNumber)
+                  : maskCardNumber(cardData.cardNumber)}
+              </Text>
+              <View style={styles.fieldActions}>
+                <TouchableOpacity
+                  onPress={() => setShowCardNumber(!showCardNumber)}
+                  style={styles.actionButton}
+                >
+                  <Text style={styles.actionText}>
+                    {showCardNumber ? '🙈' : '👁️'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleCopy(cardData.cardNumber, 'Card number')}
+                  style={styles.actionButton}
+                >
+                  <Text style={styles.actionText}>📋</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
           </View>
-        )}
-      </View>
+
+          <View style={styles.fieldRow}>
+            <View style={[styles.field, styles.fieldRowItem]}>
+              <Text style={styles.fieldLabel}>Expires</Text>
+              <View style={styles.fieldValue}>
+                <Text style={styles.fieldText}>
+                  {cardData.expiryMonth}/{cardData.expiryYear.slice(-2)}
+                </Text>
+              </View>
+            </View>
+
+            <View style={[styles.field, styles.fieldRowItem]}>
+              <Text style={styles.fieldLabel}>CVV</Text>
+              <View style={styles.fieldValue}>
+                <Text style={styles.fieldText}>
+                  {showCvv ? cardData.cvv : '•'.repeat(cardData.cvv.length)}
+                </Text>
+                <View style={styles.fieldActions}>
+                  <TouchableOpacity
+                    onPress={() => setShowCvv(!showCvv)}
+                    style={styles.actionButton}
+                  >
+                    <Text style={styles.actionText}>{showCvv ? '🙈' : '👁️'}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleCopy(cardData.cvv, 'CVV')}
+                    style={styles.actionButton}
+                  >
+                    <Text style={styles.actionText}>📋</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          </View>
+
+          {cardData.notes && (
+            <View style={styles.field}>
+              <Text style={styles.fieldLabel}>Notes</Text>
+              <Text style={styles.notesText}>{cardData.notes}</Text>
+            </View>
+          )}
+        </View>
+      )}
 
       <View style={styles.metadata}>
         <Text style={styles.metaText}>
@@ -204,11 +354,30 @@ export default function ItemDetailScreen() {
       </View>
 
       <View style={styles.actions}>
+        {canEditItems(getVaultRole(vault)) && (
+          <Button
+            title="Edit Item"
+            onPress={() =>
+              router.push(`/(app)/item/${itemId}/edit?vaultId=${vaultId}`)
+            }
+            style={styles.shareButton}
+          />
+        )}
         <Button
-          title="Delete Item"
-          onPress={handleDelete}
-          variant="danger"
+          title="Share Link"
+          onPress={() =>
+            router.push(`/(app)/item/share?itemId=${itemId}&vaultId=${vaultId}`)
+          }
+          variant="secondary"
+          style={styles.shareButton}
         />
+        {canEditItems(getVaultRole(vault)) && (
+          <Button
+            title="Delete Item"
+            onPress={handleDelete}
+            variant="danger"
+          />
+        )}
       </View>
     </ScrollView>
   );
@@ -266,6 +435,18 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#1F2937',
   },
+  fieldHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  fieldRowItem: {
+    flex: 1,
+  },
   fieldActions: {
     flexDirection: 'row',
     gap: 8,
@@ -304,4 +485,7 @@ const styles = StyleSheet.create({
   actions: {
     marginBottom: 24,
   },
+  shareButton: {
+    marginBottom: 12,
+  },
 });
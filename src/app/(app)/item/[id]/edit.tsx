@@ -0,0 +1,241 @@
+/**
+ * Edit Vault Item Screen
+ *
+ * Pre-fills the decrypted item, re-encrypts on save and asks before
+ * discarding unsaved changes
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams, useNavigation } from 'expo-router';
+import { useVaultItemStore } from '@/store/vault-item.store';
+import { useVaultStore } from '@/store/vault.store';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { Loading } from '@/components/Loading';
+import { ItemForm } from '@/components/ItemForm';
+import {
+  buildItemData,
+  getItemFormValues,
+  hasItemFormChanges,
+  ItemFormErrors,
+  ItemFormValues,
+} from '@/utils/item-form';
+
+export default function EditItemScreen() {
+  const router = useRouter();
+  const navigation = useNavigation();
+  const { id: itemId, vaultId } = useLocalSearchParams<{
+    id: string;
+    vaultId: string;
+  }>();
+  const { items, decryptedItems, decryptItem, updateItem } = useVaultItemStore();
+  const keyId = useVaultStore(
+    (state) => state.vaults.find((v) => v.id === vaultId)?.keyId
+  );
+
+  const item = items.find((i) => i.id === itemId);
+  const decryptedItem = decryptedItems.get(itemId!);
+
+  // Values as saved - the baseline for change detection
+  const originalValues = useMemo(
+    () =>
+      decryptedItem
+        ? getItemFormValues(decryptedItem.type, decryptedItem.name, decryptedItem.data)
+        : null,
+    [decryptedItem]
+  );
+
+  const [formData, setFormData] = useState<ItemFormValues | null>(null);
+  const [formErrors, setFormErrors] = useState<ItemFormErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const allowLeave = useRef(false);
+
+  const hasChanges =
+    !!item &&
+    !!originalValues &&
+    !!formData &&
+    hasItemFormChanges(item.type, originalValues, formData);
+
+  // Decrypt when opened directly (not via the detail screen)
+  useEffect(() => {
+    if (item && !decryptedItem && keyId) {
+      decryptItem(item.id, keyId).catch(() =>
+        setError('Unable to decrypt this item')
+      );
+    }
+  }, [item, decryptedItem, keyId, decryptItem]);
+
+  // Pre-fill once the item is decrypted
+  useEffect(() => {
+    if (originalValues) {
+      setFormData((prev) => prev ?? originalValues);
+    }
+  }, [originalValues]);
+
+  // Ask before leaving with unsaved changes (back button, swipe, header)
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('beforeRemove', (event) => {
+      if (!hasChanges || allowLeave.current) return;
+
+      event.preventDefault();
+      Alert.alert(
+        'Discard Changes?',
+        'You have unsaved changes to this item.',
+        [
+          { text: 'Keep Editing', style: 'cancel' },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () => navigation.dispatch(event.data.action),
+          },
+        ]
+      );
+    });
+
+    return unsubscribe;
+  }, [navigation, hasChanges]);
+
+  const updateForm = (values: ItemFormValues) => {
+    setFormErrors({});
+    setFormData(values);
+  };
+
+  const handleSave = async () => {
+    if (!item || !formData) return;
+
+    if (!hasChanges) {
+      router.back();
+      return;
+    }
+
+    // A saved card may have expired since - still allow editing its notes
+    const { errors, data } = buildItemData(item.type, formData, {
+      allowExpiredCard: true,
+    });
+    setFormErrors(errors);
+    if (!data) {
+      return;
+    }
+
+    if (!keyId) {
+      Alert.alert('Error', 'Encryption key not available. Please unlock the app.');
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+
+    try {
+      await updateItem(vaultId!, item.id, formData.name.trim(), data, keyId);
+      allowLeave.current = true;
+      router.back();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save item');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!item) {
+    return (
+      <View style={styles.container}>
+        <ErrorMessage message="Item not found" />
+      </View>
+    );
+  }
+
+  if (!formData) {
+    return error ? (
+      <View style={styles.container}>
+        <ErrorMessage message={error} />
+      </View>
+    ) : (
+      <Loading message="Decrypting..." />
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && <ErrorMessage message={error} onDismiss={() => setError(null)} />}
+
+        <ItemForm
+          type={item.type}
+          values={formData}
+          errors={formErrors}
+          onChange={updateForm}
+        />
+
+        <View style={styles.actions}>
+          <Button
+            title={hasChanges ? 'Save Changes' : 'No Changes'}
+            onPress={handleSave}
+            loading={isSaving}
+            disabled={!hasChanges}
+          />
+          <Button
+            title="Cancel"
+            onPress={() => router.back()}
+            variant="secondary"
+            disabled={isSaving}
+            style={styles.cancelButton}
+          />
+        </View>
+
+        <View style={styles.securityNote}>
+          <Text style={styles.securityIcon}>🔐</Text>
+          <Text style={styles.securityText}>
+            Your changes are encrypted on your device before being sent to the server.
+          </Text>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    padding: 24,
+  },
+  actions: {
+    marginTop: 16,
+  },
+  cancelButton: {
+    marginTop: 8,
+  },
+  securityNote: {
+    flexDirection: 'row',
+    backgroundColor: '#F0FDF4',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  securityIcon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  securityText: {
+    flex: 1,
+    fontSize: 11,
+    color: '#166534',
+    lineHeight: 16,
+  },
+});
@@ -15,41 +15,49 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { useVaultItemStore } from '@/store/vault-item.store';
-import { useAuthStore } from '@/store/auth.store';
-import { Input } from '@/components/Input';
+import { useVaultStore } from '@/store/vault.store';
 import { Button } from '@/components/Button';
 import { ErrorMessage } from '@/components/ErrorMessage';
-import { VaultItemType, PasswordItemData } from '@/types';
-
-type ItemType = 'password' | 'note' | 'card';
+import { ItemForm } from '@/components/ItemForm';
+import { VaultItemType } from '@/types';
+import {
+  buildItemData,
+  EMPTY_ITEM_FORM,
+  ItemFormErrors,
+  ItemFormValues,
+} from '@/utils/item-form';
+
+const ITEM_TYPES = [
+  { type: VaultItemType.PASSWORD, label: '🔑 Password' },
+  { type: VaultItemType.NOTE, label: '📝 Note' },
+  { type: VaultItemType.CARD, label: '💳 Card' },
+];
 
 export default function CreateItemScreen() {
   const router = useRouter();
   const { vaultId } = useLocalSearchParams<{ vaultId: string }>();
   const { createItem, isLoading, error, clearError } = useVaultItemStore();
-  const { encryptionKey } = useAuthStore();
+  const keyId = useVaultStore(
+    (state) => state.vaults.find((v) => v.id === vaultId)?.keyId
+  );
 
-  const [selectedType, setSelectedType] = useState<ItemType>('password');
-  const [formData, setFormData] = useState({
-    name: '',
-    username: '',
-    password: '',
-    url: '',
-    notes: '',
-  });
+  const [selectedType, setSelectedType] = useState(VaultItemType.PASSWORD);
+  const [formData, setFormData] = useState<ItemFormValues>(EMPTY_ITEM_FORM);
+  const [formErrors, setFormErrors] = useState<ItemFormErrors>({});
 
-  const handleCreateItem = async () => {
-    if (!formData.name.trim()) {
-      Alert.alert('Error', 'Please enter a name for this item');
-      return;
-    }
+  const updateForm = (values: ItemFormValues) => {
+    setFormErrors({});
+    setFormData(values);
+  };
 
-    if (selectedType === 'password' && !formData.password) {
-      Alert.alert('Error', 'Please enter a password');
+  const handleCreateItem = async () => {
+    const { errors, data } = buildItemData(selectedType, formData);
+    setFormErrors(errors);
+    if (!data) {
       return;
     }
 
-    if (!encryptionKey) {
+    if (!keyId) {
       Alert.alert('Error', 'Encryption key not available. Please unlock the app.');
       return;
     }
@@ -57,29 +65,12 @@ export default function CreateItemScreen() {
     clearError();
 
     try {
-      let itemData: PasswordItemData;
-      let itemType: VaultItemType;
-
-      if (selectedType === 'password') {
-        itemData = {
-          username: formData.username,
-          password: formData.password,
-          url: formData.url || undefined,
-          notes: formData.notes || undefined,
-        };
-        itemType = VaultItemType.PASSWORD;
-      } else {
-        // For now, only password type is implemented
-        Alert.alert('Info', 'Only password items are supported in this version');
-        return;
-      }
-
       await createItem(
         vaultId!,
-        itemType,
+        selectedType,
         formData.name.trim(),
-        itemData,
-        encryptionKey
+        data,
+        keyId
       );
 
       Alert.alert('Success', 'Item created successfully', [
@@ -93,22 +84,6 @@ export default function CreateItemScreen() {
     }
   };
 
-  const generatePassword = () => {
-    const length = 16;
-    const charset =
-      'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*()_+-=[]{}|;:,.<>?';
-    let password = '';
-    
-    // Use cryptographically secure random number generator
-    const randomValues = new Uint8Array(length);
-    crypto.getRandomValues(randomValues);
-    
-    for (let i = 0; i < length; i++) {
-      password += charset.charAt(randomValues[i] % charset.length);
-    }
-    setFormData((prev) => ({ ...prev, password }));
-  };
-
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -118,109 +93,36 @@ export default function CreateItemScreen() {
         {error && <ErrorMessage message={error} onDismiss={clearError} />}
 
         <View style={styles.typeSelector}>
-          <TouchableOpacity
-            style={[
-              styles.typeButton,
-              selectedType === 'password' && styles.typeButtonActive,
-            ]}
-            onPress={() => setSelectedType('password')}
-          >
-            <Text
+          {ITEM_TYPES.map(({ type, label }) => (
+            <TouchableOpacity
+              key={type}
               style={[
-                styles.typeButtonText,
-                selectedType === 'password' && styles.typeButtonTextActive,
+                styles.typeButton,
+                selectedType === type && styles.typeButtonActive,
               ]}
+              onPress={() => {
+                setFormErrors({});
+                setSelectedType(type);
+              }}
             >
-              🔑 Password
-            </Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity
-            style={[styles.typeButton, styles.typeButtonDisabled]}
-            disabled
-          >
-            <Text style={[styles.typeButtonText, styles.typeButtonTextDisabled]}>
-              📝 Note (Soon)
-            </Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity
-            style={[styles.typeButton, styles.typeButtonDisabled]}
-            disabled
-          >
-            <Text style={[styles.typeButtonText, styles.typeButtonTextDisabled]}>
-              💳 Card (Soon)
-            </Text>
-          </TouchableOpacity>
-        </View>
-
-        {selectedType === 'password' && (
-          <>
-            <Input
-              label="Name"
-              placeholder="e.g., Gmail Account"
-              value={formData.name}
-              onChangeText={(value) =>
-                setFormData((prev) => ({ ...prev, name: value }))
-              }
-            />
-
-            <Input
-              label="Username/Email"
-              placeholder="your.email@example.com"
-              value={formData.username}
-              onChangeText={(value) =>
-                setFormData((prev) => ({ ...prev, username: value }))
-              }
-              autoCapitalize="none"
-              autoCorrect={false}
-            />
-
-            <View>
-              <Input
-                label="Password"
-                placeholder="Enter password"
-                value={formData.password}
-                onChangeText={(value) =>
-                  setFormData((prev) => ({ ...prev, password: value }))
-                }
-                isPassword
-                autoCapitalize="none"
-                autoCorrect={false}
-              />
-              <TouchableOpacity
-                style={styles.generateButton}
-                onPress={generatePassword}
+              <Text
+                style={[
+                  styles.typeButtonText,
+                  selectedType === type && styles.typeButtonTextActive,
+                ]}
               >
-                <Text style={styles.generateButtonText}>🎲 Generate</Text>
-              </TouchableOpacity>
-            </View>
-
-            <Input
-              label="Website URL (Optional)"
-              placeholder="https://example.com"
-              value={formData.url}
-              onChangeText={(value) =>
-                setFormData((prev) => ({ ...prev, url: value }))
-              }
-              autoCapitalize="none"
-              autoCorrect={false}
-              keyboardType="url"
-            />
+                {label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
 
-            <Input
-              label="Notes (Optional)"
-              placeholder="Additional information..."
-              value={formData.notes}
-              onChangeText={(value) =>
-                setFormData((prev) => ({ ...prev, notes: value }))
-              }
-              multiline
-              numberOfLines={3}
-              style={styles.notesInput}
-            />
-          </>
-        )}
+        <ItemForm
+          type={selectedType}
+          values={formData}
+          errors={formErrors}
+          onChange={updateForm}
+        />
 
         <View style={styles.actions}>
           <Button
@@ -274,9 +176,6 @@ const styles = StyleSheet.create({
     borderColor: '#3B82F6',
     backgroundColor: '#EFF6FF',
   },
-  typeButtonDisabled: {
-    opacity: 0.5,
-  },
   typeButtonText: {
     fontSize: 13,
     color: '#6B7280',
@@ -286,27 +185,6 @@ const styles = StyleSheet.create({
     color: '#3B82F6',
     fontWeight: '600',
   },
-  typeButtonTextDisabled: {
-    color: '#9CA3AF',
-  },
-  generateButton: {
-    position: 'absolute',
-    right: 12,
-    top: 36,
-    backgroundColor: '#3B82F6',
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 6,
-  },
-  generateButtonText: {
-    color: '#FFFFFF',
-    fontSize: 12,
-    fontWeight: '600',
-  },
-  notesInput: {
-    height: 80,
-    textAlignVertical: 'top',
-  },
   actions: {
     marginTop: 16,
   },
@@ -0,0 +1,305 @@
+/**
+ * Share Item Screen
+ *
+ * Creates a one-time link for a single item, for someone without an account.
+ * The link expires after a set time or number of views, whichever comes first.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Share,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useVaultItemStore } from '@/store/vault-item.store';
+import { useAuthStore } from '@/store/auth.store';
+import { ShareService, CreatedItemShare } from '@/services/share.service';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { copyToClipboard } from '@/utils/clipboard';
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+];
+
+const VIEW_OPTIONS = [1, 3, 10];
+
+export default function ShareItemScreen() {
+  const router = useRouter();
+  const { itemId } = useLocalSearchParams<{ itemId: string; vaultId: string }>();
+  const decryptedItem = useVaultItemStore((state) =>
+    state.decryptedItems.get(itemId!)
+  );
+  const { user } = useAuthStore();
+
+  const [expiresInHours, setExpiresInHours] = useState(EXPIRY_OPTIONS[1].hours);
+  const [maxViews, setMaxViews] = useState(VIEW_OPTIONS[0]);
+  const [created, setCreated] = useState<CreatedItemShare | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    if (!decryptedItem) {
+      Alert.alert('Error', 'Open the item again to share it');
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      setCreated(
+        await ShareService.createItemShare(decryptedItem, user?.email ?? '', {
+          expiresInHours,
+          maxViews,
+        })
+      );
+    } catch (err: any) {
+      setError(err.message || 'Failed to create share link');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    await copyToClipboard(created.url);
+    Alert.alert('Copied', 'Link copied to clipboard (will clear in 60s)');
+  };
+
+  const handleSend = async () => {
+    if (!created) return;
+    try {
+      await Share.share({ message: created.url });
+    } catch (err) {
+      Alert.alert('Error', 'Failed to open the share sheet');
+    }
+  };
+
+  const handleRevoke = () => {
+    if (!created) return;
+
+    Alert.alert(
+      'Revoke Link',
+      'The link will stop working immediately.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ShareService.revokeItemShare(created.share.id);
+              router.back();
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to revoke link');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (created) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.title}>Link Ready</Text>
+        <Text style={styles.description}>
+          Send this link to the recipient. It opens{' '}
+          {created.share.maxViews === 1
+            ? 'once'
+            : `${created.share.maxViews} times`}{' '}
+          and expires {new Date(created.share.expiresAt).toLocaleString()}.
+        </Text>
+
+        <View style={styles.linkBox}>
+          <Text style={styles.linkText} numberOfLines={3}>
+            {created.url}
+          </Text>
+        </View>
+
+        <Button
+          title="Send Link"
+          onPress={handleSend}
+          style={styles.button}
+        />
+        <Button
+          title="Copy Link"
+          onPress={handleCopy}
+          variant="secondary"
+          style={styles.button}
+        />
+        <Button title="Revoke Link" onPress={handleRevoke} variant="danger" />
+
+        <View style={styles.warningNote}>
+          <Text style={styles.warningIcon}>⚠️</Text>
+          <Text style={styles.warningText}>
+            Anyone with the full link can open it. Send it over a channel you
+            trust - the part after "#" is the key and never reaches our
+            servers.
+          </Text>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {error && <ErrorMessage message={error} onDismiss={() => setError(null)} />}
+
+      <Text style={styles.title}>Share "{decryptedItem?.name}"</Text>
+      <Text style={styles.description}>
+        Creates a link that shows a copy of this item to someone without a
+        VaultGuard account. Later changes to the item are not shared.
+      </Text>
+
+      <Text style={styles.label}>Expires after</Text>
+      <View style={styles.options}>
+        {EXPIRY_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.hours}
+            style={[
+              styles.option,
+              expiresInHours === option.hours && styles.optionSelected,
+            ]}
+            onPress={() => setExpiresInHours(option.hours)}
+            disabled={isSubmitting}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                expiresInHours === option.hours && styles.optionTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Maximum views</Text>
+      <View style={styles.options}>
+        {VIEW_OPTIONS.map((views) => (
+          <TouchableOpacity
+            key={views}
+            style={[styles.option, maxViews === views && styles.optionSelected]}
+            onPress={() => setMaxViews(views)}
+            disabled={isSubmitting}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                maxViews === views && styles.optionTextSelected,
+              ]}
+            >
+              {views === 1 ? '1 view' : `${views} views`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Button
+        title="Create Link"
+        onPress={handleCreate}
+        loading={isSubmitting}
+        style={styles.button}
+      />
+      <Button
+        title="Cancel"
+        onPress={() => router.back()}
+        variant="secondary"
+        disabled={isSubmitting}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    marginBottom: 24,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  optionSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  linkBox: {
+    backgroundColor: '#F3F4F6',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 24,
+  },
+  linkText: {
+    fontSize: 13,
+    color: '#1F2937',
+  },
+  button: {
+    marginBottom: 8,
+  },
+  warningNote: {
+    flexDirection: 'row',
+    backgroundColor: '#FEF3C7',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 16,
+    alignItems: 'flex-start',
+  },
+  warningIcon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 11,
+    color: '#92400E',
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,266 @@
+/**
+ * Recovery Code Screen
+ *
+ * Shows a new recovery code once (after registration or when regenerated)
+ * and lets the user save or print it as an emergency kit.
+ * Without a pending code, asks for the master password to create a new one.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  Share,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuthStore } from '@/store/auth.store';
+import { Input } from '@/components/Input';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { buildEmergencyKit } from '@/utils/emergency-kit';
+
+export default function RecoveryKitScreen() {
+  const router = useRouter();
+  const {
+    user,
+    pendingRecoveryCode,
+    createRecoveryCode,
+    dismissRecoveryCode,
+  } = useAuthStore();
+
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [kitSaved, setKitSaved] = useState(false);
+
+  const handleCreate = () => {
+    if (!password) {
+      Alert.alert('Error', 'Please enter your master password');
+      return;
+    }
+
+    Alert.alert(
+      'Create New Recovery Code',
+      'Your current recovery code and emergency kit will stop working.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Create',
+          onPress: async () => {
+            setError(null);
+            setIsSubmitting(true);
+            try {
+              await createRecoveryCode(password);
+              setPassword('');
+            } catch (err: any) {
+              setError(err.message || 'Failed to create recovery code');
+            } finally {
+              setIsSubmitting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSaveKit = async () => {
+    if (!pendingRecoveryCode) return;
+
+    try {
+      const result = await Share.share({
+        title: 'VaultGuard Emergency Kit',
+        message: buildEmergencyKit(user?.email ?? '', pendingRecoveryCode),
+      });
+      if (result.action === Share.sharedAction) {
+        setKitSaved(true);
+      }
+    } catch (err) {
+      Alert.alert('Error', 'Failed to open the share sheet');
+    }
+  };
+
+  const finish = () => {
+    dismissRecoveryCode();
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(app)/vaults');
+    }
+  };
+
+  const handleDone = () => {
+    if (kitSaved) {
+      finish();
+      return;
+    }
+
+    Alert.alert(
+      'Did You Save It?',
+      'This recovery code will not be shown again. Without it, a forgotten master password means losing your vault.',
+      [
+        { text: 'Go Back', style: 'cancel' },
+        { text: "I've Written It Down", onPress: finish },
+      ]
+    );
+  };
+
+  if (pendingRecoveryCode) {
+    const words = pendingRecoveryCode.split(' ');
+
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.title}>Your Recovery Code</Text>
+        <Text style={styles.description}>
+          Write these words down in order or save the emergency kit. They are
+          the only way back into your account if you forget your master
+          password.
+        </Text>
+
+        <View style={styles.wordGrid}>
+          {words.map((word, index) => (
+            <View key={index} style={styles.wordCell}>
+              <Text style={styles.wordIndex}>{index + 1}</Text>
+              <Text style={styles.word} selectable={false}>
+                {word}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <Button
+          title="Save or Print Emergency Kit"
+          onPress={handleSaveKit}
+          style={styles.saveButton}
+        />
+        <Button title="Done" onPress={handleDone} variant="secondary" />
+
+        <View style={styles.warningNote}>
+          <Text style={styles.warningIcon}>⚠️</Text>
+          <Text style={styles.warningText}>
+            Anyone with this code can take over your account. Keep it offline
+            and private - we cannot show it again or recover it for you.
+          </Text>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError(null)} />
+        )}
+
+        <Text style={styles.title}>New Recovery Code</Text>
+        <Text style={styles.description}>
+          Create a new recovery code if you lost your emergency kit or think
+          someone else has seen it. The previous code stops working.
+        </Text>
+
+        <Input
+          label="Master Password"
+          placeholder="Enter your master password"
+          value={password}
+          onChangeText={setPassword}
+          isPassword
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSubmitting}
+        />
+
+        <Button
+          title="Create Recovery Code"
+          onPress={handleCreate}
+          loading={isSubmitting}
+          style={styles.saveButton}
+        />
+        <Button
+          title="Cancel"
+          onPress={() => router.back()}
+          variant="secondary"
+          disabled={isSubmitting}
+        />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  wordGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  wordCell: {
+    width: '31%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    marginBottom: 8,
+  },
+  wordIndex: {
+    width: 20,
+    fontSize: 11,
+    color: '#9CA3AF',
+  },
+  word: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  saveButton: {
+    marginBottom: 8,
+  },
+  warningNote: {
+    flexDirection: 'row',
+    backgroundColor: '#FEF3C7',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 16,
+    alignItems: 'flex-start',
+  },
+  warningIcon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 11,
+    color: '#92400E',
+    lineHeight: 16,
+  },
+});
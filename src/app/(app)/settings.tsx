@@ -22,9 +22,14 @@ import ENV from '@/config/env';
 
 const BIOMETRIC_ENABLED_KEY = ENV.STORAGE_KEYS.BIOMETRIC_ENABLED;
 
+const KDF_LABELS = {
+  ARGON2ID: 'Argon2id',
+  'PBKDF2-SHA256': 'PBKDF2-SHA256',
+};
+
 export default function SettingsScreen() {
   const router = useRouter();
-  const { user, logout } = useAuthStore();
+  const { user, kdfProfile, keyPairId, logout } = useAuthStore();
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [biometricAvailable, setBiometricAvailable] = useState(false);
   const [biometricType, setBiometricType] = useState<string>('');
@@ -128,6 +133,13 @@ export default function SettingsScreen() {
             <Text style={styles.infoLabel}>User ID</Text>
             <Text style={styles.infoValueSmall}>{user?.id}</Text>
           </View>
+
+          {keyPairId && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Sharing Key</Text>
+              <Text style={styles.infoValueSmall}>{keyPairId}</Text>
+            </View>
+          )}
         </View>
       </View>
 
@@ -155,7 +167,10 @@ export default function SettingsScreen() {
             </View>
           )}
           
-          <TouchableOpacity style={styles.settingRow}>
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => router.push('/(app)/change-password')}
+          >
             <View style={styles.settingInfo}>
               <Text style={styles.settingLabel}>Change Master Password</Text>
               <Text style={styles.settingDescription}>
@@ -164,6 +179,71 @@ export default function SettingsScreen() {
             </View>
             <Text style={styles.chevron}>›</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => router.push('/(app)/recovery-kit')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Recovery Code</Text>
+              <Text style={styles.settingDescription}>
+                Create a new recovery code and emergency kit
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => router.push('/(app)/emergency-access')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Emergency Access</Text>
+              <Text style={styles.settingDescription}>
+                Let trusted contacts request access to your vaults
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => router.push('/(app)/import-authenticator')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Import Authenticator Codes</Text>
+              <Text style={styles.settingDescription}>
+                Move 2FA accounts from Google Authenticator or otpauth:// links
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => router.push('/(app)/generator-history')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Generator History</Text>
+              <Text style={styles.settingDescription}>
+                Copy or clear recently generated passwords and usernames
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => router.push('/(app)/weak-passwords')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Weak Passwords</Text>
+              <Text style={styles.settingDescription}>
+                Find saved passwords that are easy to guess
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
         </View>
       </View>
 
@@ -208,7 +288,9 @@ export default function SettingsScreen() {
           
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Key Derivation</Text>
-            <Text style={styles.infoValue}>PBKDF2-SHA256</Text>
+            <Text style={styles.infoValue}>
+              {kdfProfile ? KDF_LABELS[kdfProfile.algorithm] : 'Argon2id'}
+            </Text>
           </View>
         </View>
       </View>
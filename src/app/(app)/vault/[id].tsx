@@ -1,5 +1,6 @@
 /**
  * Vault Items Screen (List items in a vault)
+ * Shows who has access; view-only members cannot change items
  */
 
 import React, { useEffect, useState } from 'react';
@@ -12,31 +13,39 @@ import {
   RefreshControl,
   Alert,
 } from 'react-native';
-import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
 import { useVaultItemStore } from '@/store/vault-item.store';
-import { useAuthStore } from '@/store/auth.store';
+import { useVaultStore } from '@/store/vault.store';
 import { Loading } from '@/components/Loading';
 import { ErrorMessage } from '@/components/ErrorMessage';
 import { Button } from '@/components/Button';
+import { VaultMembers } from '@/components/VaultMembers';
 import { VaultItem } from '@/types';
+import { canEditItems, getVaultRole } from '@/utils/vault-permissions';
 
 export default function VaultItemsScreen() {
   const router = useRouter();
   const { id: vaultId } = useLocalSearchParams<{ id: string }>();
   const { items, isLoading, error, fetchItems, deleteItem, toggleFavorite } =
     useVaultItemStore();
-  const { encryptionKey } = useAuthStore();
+  const vault = useVaultStore((state) =>
+    state.vaults.find((v) => v.id === vaultId)
+  );
+  const keyId = vault?.keyId;
+  const canEdit = canEditItems(getVaultRole(vault));
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     if (vaultId) {
       loadItems();
     }
-  }, [vaultId]);
+  }, [vaultId, keyId]);
 
   const loadItems = async () => {
+    if (!keyId) return;
+
     try {
-      await fetchItems(vaultId!);
+      await fetchItems(vaultId!, keyId);
     } catch (err) {
       // Error handled by store
     }
@@ -98,7 +107,7 @@ export default function VaultItemsScreen() {
     <TouchableOpacity
       style={styles.itemCard}
       onPress={() => handleItemPress(item)}
-      onLongPress={() => handleDeleteItem(item)}
+      onLongPress={canEdit ? () => handleDeleteItem(item) : undefined}
     >
       <View style={styles.itemIcon}>
         <Text style={styles.iconText}>{getItemIcon(item.type)}</Text>
@@ -120,6 +129,7 @@ export default function VaultItemsScreen() {
       <TouchableOpacity
         onPress={() => handleToggleFavorite(item)}
         style={styles.favoriteButton}
+        disabled={!canEdit}
       >
         <Text style={styles.favoriteButtonText}>
           {item.favorite ? '★' : '☆'}
@@ -133,22 +143,47 @@ export default function VaultItemsScreen() {
       <Text style={styles.emptyIcon}>📦</Text>
       <Text style={styles.emptyTitle}>No Items Yet</Text>
       <Text style={styles.emptyText}>
-        Add your first password, note, or card to this vault
+        {canEdit
+          ? 'Add your first password, note, or card to this vault'
+          : 'Nothing has been shared in this vault yet'}
       </Text>
-      <Button
-        title="Add Item"
-        onPress={() => router.push(`/(app)/item/create?vaultId=${vaultId}`)}
-        style={styles.emptyButton}
-      />
+      {canEdit && (
+        <Button
+          title="Add Item"
+          onPress={() => router.push(`/(app)/item/create?vaultId=${vaultId}`)}
+          style={styles.emptyButton}
+        />
+      )}
     </View>
   );
 
+  if (vault && !keyId) {
+    return (
+      <View style={styles.container}>
+        <ErrorMessage message="This vault's key could not be opened. Unlock the app again or ask the vault owner to re-share it." />
+      </View>
+    );
+  }
+
   if (isLoading && items.length === 0) {
     return <Loading message="Loading items..." />;
   }
 
   return (
     <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: vault?.name ?? 'Vault Items',
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={() => router.push(`/(app)/vault/${vaultId}/settings`)}
+              style={styles.headerButton}
+            >
+              <Text style={styles.headerButtonText}>⚙️</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
       {error && <ErrorMessage message={error} onRetry={loadItems} />}
 
       <FlatList
@@ -159,18 +194,21 @@ export default function VaultItemsScreen() {
           styles.listContent,
           items.length === 0 && styles.emptyContent,
         ]}
+        ListHeaderComponent={vault ? <VaultMembers vault={vault} /> : null}
         ListEmptyComponent={renderEmptyState}
         refreshControl={
           <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
         }
       />
 
-      <View style={styles.footer}>
-        <Button
-          title="+ Add Item"
-          onPress={() => router.push(`/(app)/item/create?vaultId=${vaultId}`)}
-        />
-      </View>
+      {canEdit && (
+        <View style={styles.footer}>
+          <Button
+            title="+ Add Item"
+            onPress={() => router.push(`/(app)/item/create?vaultId=${vaultId}`)}
+          />
+        </View>
+      )}
     </View>
   );
 }
@@ -180,6 +218,12 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F9FAFB',
   },
+  headerButton: {
+    padding: 4,
+  },
+  headerButtonText: {
+    fontSize: 20,
+  },
   listContent: {
     padding: 16,
   },
@@ -0,0 +1,299 @@
+/**
+ * Vault Settings Screen
+ *
+ * Rename a vault, change its description and icon, and delete it
+ * (owners only, after typing the vault name)
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useVaultStore } from '@/store/vault.store';
+import { Input } from '@/components/Input';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { VaultIconPicker, DEFAULT_VAULT_ICON } from '@/components/VaultIconPicker';
+import {
+  VAULT_ROLE_LABELS,
+  getVaultRole,
+  canEditVault,
+  canDeleteVault,
+} from '@/utils/vault-permissions';
+
+export default function VaultSettingsScreen() {
+  const router = useRouter();
+  const { id: vaultId } = useLocalSearchParams<{ id: string }>();
+  const { updateVault, deleteVault } = useVaultStore();
+  const vault = useVaultStore((state) =>
+    state.vaults.find((v) => v.id === vaultId)
+  );
+  const role = getVaultRole(vault);
+
+  const [formData, setFormData] = useState({
+    name: vault?.name ?? '',
+    description: vault?.description ?? '',
+    icon: vault?.icon || DEFAULT_VAULT_ICON,
+  });
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  if (!vault) {
+    return (
+      <View style={styles.container}>
+        <ErrorMessage message="Vault not found" />
+      </View>
+    );
+  }
+
+  const canEdit = canEditVault(role) && !!vault.keyId;
+  const hasChanges =
+    formData.name.trim() !== vault.name ||
+    formData.description.trim() !== (vault.description ?? '') ||
+    formData.icon !== (vault.icon || DEFAULT_VAULT_ICON);
+  const deleteConfirmed = deleteConfirmation.trim() === vault.name;
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      Alert.alert('Error', 'Please enter a vault name');
+      return;
+    }
+
+    if (!vault.keyId) {
+      Alert.alert('Error', 'Encryption key not available. Please unlock the app.');
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+
+    try {
+      // Metadata is encrypted with the vault's own key
+      await updateVault(
+        vault.id,
+        {
+          name: formData.name.trim(),
+          description: formData.description.trim() || undefined,
+        },
+        vault.keyId,
+        formData.icon
+      );
+      Alert.alert('Saved', 'Vault details updated');
+    } catch (err: any) {
+      setError(err.message || 'Failed to update vault');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!deleteConfirmed) return;
+
+    Alert.alert(
+      'Delete Vault',
+      `"${vault.name}" and its ${vault.itemCount} ${
+        vault.itemCount === 1 ? 'item' : 'items'
+      } will be deleted for everyone with access. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setError(null);
+            setIsDeleting(true);
+            try {
+              await deleteVault(vault.id);
+              router.replace('/(app)/vaults');
+            } catch (err: any) {
+              setError(err.message || 'Failed to delete vault');
+              setIsDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content}>
+        {error && <ErrorMessage message={error} onDismiss={() => setError(null)} />}
+
+        <View style={styles.infoCard}>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Items</Text>
+            <Text style={styles.infoValue}>{vault.itemCount}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Your Role</Text>
+            <Text style={styles.infoValue}>{VAULT_ROLE_LABELS[role]}</Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Created</Text>
+            <Text style={styles.infoValue}>
+              {new Date(vault.createdAt).toLocaleString()}
+            </Text>
+          </View>
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Last Updated</Text>
+            <Text style={styles.infoValue}>
+              {new Date(vault.updatedAt).toLocaleString()}
+            </Text>
+          </View>
+        </View>
+
+        {canEdit ? (
+          <>
+            <Input
+              label="Vault Name"
+              placeholder="e.g., Personal Accounts"
+              value={formData.name}
+              onChangeText={(value) =>
+                setFormData((prev) => ({ ...prev, name: value }))
+              }
+              maxLength={100}
+              editable={!isSaving}
+            />
+
+            <Input
+              label="Description (Optional)"
+              placeholder="What's this vault for?"
+              value={formData.description}
+              onChangeText={(value) =>
+                setFormData((prev) => ({ ...prev, description: value }))
+              }
+              multiline
+              numberOfLines={3}
+              style={styles.descriptionInput}
+              editable={!isSaving}
+            />
+
+            <Text style={styles.label}>Icon</Text>
+            <VaultIconPicker
+              value={formData.icon}
+              onChange={(icon) => setFormData((prev) => ({ ...prev, icon }))}
+              disabled={isSaving}
+            />
+
+            <Button
+              title="Save Changes"
+              onPress={handleSave}
+              loading={isSaving}
+              disabled={!hasChanges || isDeleting}
+            />
+          </>
+        ) : (
+          <Text style={styles.hint}>
+            Only the owner or a manager can change this vault's details.
+          </Text>
+        )}
+
+        {canDeleteVault(role) && (
+          <View style={styles.dangerZone}>
+            <Text style={styles.dangerTitle}>Delete Vault</Text>
+            <Text style={styles.dangerText}>
+              Deletes this vault and every item in it, for all members. Type{' '}
+              <Text style={styles.dangerName}>{vault.name}</Text> to confirm.
+            </Text>
+            <Input
+              placeholder={vault.name}
+              value={deleteConfirmation}
+              onChangeText={setDeleteConfirmation}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isDeleting}
+            />
+            <Button
+              title="Delete Vault"
+              onPress={handleDelete}
+              variant="danger"
+              loading={isDeleting}
+              disabled={!deleteConfirmed || isSaving}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    padding: 24,
+  },
+  infoCard: {
+    backgroundColor: '#F9FAFB',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 24,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  infoValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  descriptionInput: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+  },
+  dangerZone: {
+    marginTop: 32,
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+    backgroundColor: '#FEF2F2',
+  },
+  dangerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#B91C1C',
+    marginBottom: 8,
+  },
+  dangerText: {
+    fontSize: 14,
+    color: '#7F1D1D',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  dangerName: {
+    fontWeight: 'bold',
+  },
+});
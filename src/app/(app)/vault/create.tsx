@@ -14,20 +14,21 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useVaultStore } from '@/store/vault.store';
+import { useAuthStore } from '@/store/auth.store';
 import { Input } from '@/components/Input';
 import { Button } from '@/components/Button';
 import { ErrorMessage } from '@/components/ErrorMessage';
-
-const VAULT_ICONS = ['🔒', '🏠', '💼', '🎓', '💳', '🔑', '📱', '🌐'];
+import { VaultIconPicker, DEFAULT_VAULT_ICON } from '@/components/VaultIconPicker';
 
 export default function CreateVaultScreen() {
   const router = useRouter();
   const { createVault, isLoading, error, clearError } = useVaultStore();
+  const { encryptionKeyId, keyPairId } = useAuthStore();
 
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    icon: '🔒',
+    icon: DEFAULT_VAULT_ICON,
   });
 
   const handleCreateVault = async () => {
@@ -36,14 +37,23 @@ export default function CreateVaultScreen() {
       return;
     }
 
+    if (!encryptionKeyId) {
+      Alert.alert('Error', 'Encryption key not available. Please unlock the app.');
+      return;
+    }
+
     clearError();
 
     try {
-      await createVault({
-        name: formData.name.trim(),
-        description: formData.description.trim() || undefined,
-        icon: formData.icon,
-      });
+      await createVault(
+        {
+          name: formData.name.trim(),
+          description: formData.description.trim() || undefined,
+        },
+        encryptionKeyId,
+        keyPairId,
+        formData.icon
+      );
 
       Alert.alert('Success', 'Vault created successfully', [
         {
@@ -87,22 +97,10 @@ export default function CreateVaultScreen() {
         />
 
         <Text style={styles.iconLabel}>Choose Icon</Text>
-        <View style={styles.iconGrid}>
-          {VAULT_ICONS.map((icon) => (
-            <TouchableOpacity
-              key={icon}
-              style={[
-                styles.iconOption,
-                formData.icon === icon && styles.iconSelected,
-              ]}
-              onPress={() =>
-                setFormData((prev) => ({ ...prev, icon }))
-              }
-            >
-              <Text style={styles.iconEmoji}>{icon}</Text>
-            </TouchableOpacity>
-          ))}
-        </View>
+        <VaultIconPicker
+          value={formData.icon}
+          onChange={(icon) => setFormData((prev) => ({ ...prev, icon }))}
+        />
 
         <View style={styles.actions}>
           <Button
@@ -122,9 +120,6 @@ export default function CreateVaultScreen() {
   );
 }
 
-// Import TouchableOpacity
-import { TouchableOpacity } from 'react-native';
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -143,29 +138,6 @@ const styles = StyleSheet.create({
     color: '#374151',
     marginBottom: 12,
   },
-  iconGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 12,
-    marginBottom: 24,
-  },
-  iconOption: {
-    width: 60,
-    height: 60,
-    borderRadius: 12,
-    backgroundColor: '#F9FAFB',
-    borderWidth: 2,
-    borderColor: '#E5E7EB',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  iconSelected: {
-    borderColor: '#3B82F6',
-    backgroundColor: '#EFF6FF',
-  },
-  iconEmoji: {
-    fontSize: 28,
-  },
   actions: {
     marginTop: 16,
   },
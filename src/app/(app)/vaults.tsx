@@ -15,28 +15,45 @@ import {
 import { useRouter } from 'expo-router';
 import { useVaultStore } from '@/store/vault.store';
 import { useAuthStore } from '@/store/auth.store';
+import {
+  useEmergencyAccessStore,
+  getEmergencyNotificationCount,
+} from '@/store/emergency-access.store';
 import { Loading } from '@/components/Loading';
 import { ErrorMessage } from '@/components/ErrorMessage';
 import { Button } from '@/components/Button';
 import { Vault } from '@/types';
+import { VAULT_ROLE_LABELS } from '@/utils/vault-permissions';
 
 export default function VaultsScreen() {
   const router = useRouter();
-  const { vaults, isLoading, error, fetchVaults, deleteVault, setCurrentVault } =
+  const { vaults, isLoading, error, fetchVaults, setCurrentVault } =
     useVaultStore();
-  const { logout } = useAuthStore();
+  const { logout, encryptionKeyId, keyPairId } = useAuthStore();
+  const { fetchEmergencyAccess } = useEmergencyAccessStore();
+  const emergencyNotifications = useEmergencyAccessStore(
+    getEmergencyNotificationCount
+  );
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     loadVaults();
-  }, []);
+  }, [encryptionKeyId, keyPairId]);
 
   const loadVaults = async () => {
+    if (!encryptionKeyId) return;
+
     try {
-      await fetchVaults();
+      await fetchVaults(encryptionKeyId, keyPairId);
     } catch (err) {
       // Error handled by store
     }
+
+    try {
+      await fetchEmergencyAccess();
+    } catch (err) {
+      // Notifications are optional on this screen
+    }
   };
 
   const handleRefresh = async () => {
@@ -50,27 +67,6 @@ export default function VaultsScreen() {
     router.push(`/(app)/vault/${vault.id}`);
   };
 
-  const handleDeleteVault = (vault: Vault) => {
-    Alert.alert(
-      'Delete Vault',
-      `Are you sure you want to delete "${vault.name}"? This will delete all items inside.`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await deleteVault(vault.id);
-            } catch (err) {
-              Alert.alert('Error', 'Failed to delete vault');
-            }
-          },
-        },
-      ]
-    );
-  };
-
   const handleLogout = () => {
     Alert.alert('Logout', 'Are you sure you want to logout?', [
       { text: 'Cancel', style: 'cancel' },
@@ -88,7 +84,7 @@ export default function VaultsScreen() {
     <TouchableOpacity
       style={styles.vaultCard}
       onPress={() => handleVaultPress(item)}
-      onLongPress={() => handleDeleteVault(item)}
+      onLongPress={() => router.push(`/(app)/vault/${item.id}/settings`)}
     >
       <View style={styles.vaultIcon}>
         <Text style={styles.iconText}>{item.icon || '🔒'}</Text>
@@ -100,7 +96,16 @@ export default function VaultsScreen() {
         )}
         <Text style={styles.vaultMeta}>
           {item.itemCount} {item.itemCount === 1 ? 'item' : 'items'}
+          {(item.memberCount ?? 1) > 1 &&
+            ` · Shared with ${item.memberCount! - 1}`}
         </Text>
+        {item.role && item.role !== 'owner' && (
+          <View style={styles.roleBadge}>
+            <Text style={styles.roleBadgeText}>
+              Shared with you · {VAULT_ROLE_LABELS[item.role]}
+            </Text>
+          </View>
+        )}
       </View>
       <Text style={styles.chevron}>›</Text>
     </TouchableOpacity>
@@ -134,6 +139,18 @@ export default function VaultsScreen() {
         />
       )}
 
+      {emergencyNotifications > 0 && (
+        <TouchableOpacity
+          style={styles.notificationBanner}
+          onPress={() => router.push('/(app)/emergency-access')}
+        >
+          <Text style={styles.notificationText}>
+            🆘 Emergency access needs your attention ({emergencyNotifications})
+          </Text>
+          <Text style={styles.notificationChevron}>›</Text>
+        </TouchableOpacity>
+      )}
+
       <FlatList
         data={vaults}
         renderItem={renderVaultItem}
@@ -175,6 +192,25 @@ const styles = StyleSheet.create({
   emptyContent: {
     flexGrow: 1,
   },
+  notificationBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+  },
+  notificationText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#92400E',
+  },
+  notificationChevron: {
+    fontSize: 20,
+    color: '#92400E',
+  },
   vaultCard: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -218,6 +254,19 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#9CA3AF',
   },
+  roleBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#EEF2FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginTop: 4,
+  },
+  roleBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
   chevron: {
     fontSize: 24,
     color: '#D1D5DB',
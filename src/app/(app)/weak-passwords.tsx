@@ -0,0 +1,190 @@
+/**
+ * Weak Passwords Screen
+ *
+ * Security report listing password items whose password is easy to guess,
+ * with the estimated crack time and what makes it weak. Tapping an entry
+ * opens its vault.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuthStore } from '@/store/auth.store';
+import { useVaultStore } from '@/store/vault.store';
+import {
+  SecurityReportService,
+  WeakPasswordEntry,
+} from '@/services/security-report.service';
+import { Loading } from '@/components/Loading';
+import { ErrorMessage } from '@/components/ErrorMessage';
+
+export default function WeakPasswordsScreen() {
+  const router = useRouter();
+  const { user, namesMigrated } = useAuthStore();
+  const { vaults } = useVaultStore();
+  const [entries, setEntries] = useState<WeakPasswordEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+  }, [vaults]);
+
+  const loadReport = async () => {
+    setError(null);
+    try {
+      setEntries(
+        await SecurityReportService.getWeakPasswords(
+          vaults,
+          [user?.email, user?.firstName, user?.lastName],
+          namesMigrated
+        )
+      );
+    } catch (err: any) {
+      setError(err.message || 'Failed to check passwords');
+      setEntries((prev) => prev ?? []);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadReport();
+    setRefreshing(false);
+  };
+
+  const renderEntry = ({ item }: { item: WeakPasswordEntry }) => (
+    <TouchableOpacity
+      style={styles.entry}
+      onPress={() => router.push(`/(app)/vault/${item.vaultId}`)}
+    >
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryName} numberOfLines={1}>
+          {item.itemName}
+        </Text>
+        <Text style={[styles.entryScore, { color: item.strength.color }]}>
+          {item.strength.label}
+        </Text>
+      </View>
+      <Text style={styles.entryMeta}>
+        {item.vaultName} · Cracked in about {item.strength.crackTime}
+      </Text>
+      {item.strength.warning && (
+        <Text style={styles.entryWarning}>{item.strength.warning}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyIcon}>✅</Text>
+      <Text style={styles.emptyTitle}>No Weak Passwords</Text>
+      <Text style={styles.emptyText}>
+        Every saved password is rated Strong or better
+      </Text>
+    </View>
+  );
+
+  if (entries === null) {
+    return <Loading message="Checking passwords..." />;
+  }
+
+  return (
+    <View style={styles.container}>
+      {error && (
+        <ErrorMessage
+          message={error}
+          onRetry={loadReport}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.itemId}
+        contentContainerStyle={[
+          styles.listContent,
+          entries.length === 0 && styles.emptyContent,
+        ]}
+        ListEmptyComponent={error ? null : renderEmptyState}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  listContent: {
+    padding: 16,
+  },
+  emptyContent: {
+    flex: 1,
+  },
+  entry: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  entryName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginRight: 8,
+  },
+  entryScore: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  entryWarning: {
+    fontSize: 13,
+    color: '#B45309',
+    marginTop: 6,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyIcon: {
+    fontSize: 80,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
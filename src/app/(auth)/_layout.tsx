@@ -15,6 +15,7 @@ export default function AuthLayout() {
       <Stack.Screen name="login" />
       <Stack.Screen name="register" />
       <Stack.Screen name="unlock" />
+      <Stack.Screen name="recover" />
     </Stack>
   );
 }
@@ -11,6 +11,7 @@ import {
   Platform,
   ScrollView,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuthStore } from '@/store/auth.store';
@@ -108,6 +109,13 @@ export default function LoginScreen() {
             style={styles.loginButton}
           />
 
+          <TouchableOpacity
+            style={styles.forgotButton}
+            onPress={() => router.push('/(auth)/recover')}
+          >
+            <Text style={styles.forgotText}>Forgot master password?</Text>
+          </TouchableOpacity>
+
           <View style={styles.footer}>
             <Text style={styles.footerText}>
               Don't have an account?{' '}
@@ -165,7 +173,17 @@ const styles = StyleSheet.create({
   },
   loginButton: {
     marginTop: 8,
-    marginBottom: 24,
+    marginBottom: 8,
+  },
+  forgotButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  forgotText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    fontWeight: '500',
   },
   footer: {
     alignItems: 'center',
@@ -0,0 +1,260 @@
+/**
+ * Account Recovery Screen
+ *
+ * Unlocks the account with the recovery code from the emergency kit
+ * and sets a new master password (the old one cannot be recovered)
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useAuthStore } from '@/store/auth.store';
+import { Input } from '@/components/Input';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
+import { isValidRecoveryCode } from '@/crypto';
+import { isValidEmail } from '@/utils/validation';
+import { getMasterPasswordError } from '@/utils/password-strength';
+
+export default function RecoverScreen() {
+  const router = useRouter();
+  const { user, recoverAccount, isLoading, error, clearError } = useAuthStore();
+
+  const [formData, setFormData] = useState({
+    email: user?.email ?? '',
+    recoveryCode: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+
+  const [errors, setErrors] = useState({
+    email: '',
+    recoveryCode: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+
+  const updateField = (field: keyof typeof formData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: '' }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors = {
+      email: '',
+      recoveryCode: '',
+      newPassword: '',
+      confirmPassword: '',
+    };
+
+    if (!formData.email) {
+      newErrors.email = 'Email is required';
+    } else if (!isValidEmail(formData.email)) {
+      newErrors.email = 'Invalid email format';
+    }
+
+    if (!formData.recoveryCode.trim()) {
+      newErrors.recoveryCode = 'Recovery code is required';
+    } else if (!isValidRecoveryCode(formData.recoveryCode)) {
+      newErrors.recoveryCode =
+        'Recovery code is invalid - check every word against your emergency kit';
+    }
+
+    const passwordError = formData.newPassword
+      ? getMasterPasswordError(formData.newPassword, [formData.email])
+      : null;
+
+    if (!formData.newPassword) {
+      newErrors.newPassword = 'New password is required';
+    } else if (passwordError) {
+      newErrors.newPassword = passwordError;
+    }
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return !Object.values(newErrors).some((error) => error !== '');
+  };
+
+  const handleRecover = async () => {
+    if (!validateForm()) return;
+
+    clearError();
+
+    try {
+      await recoverAccount(
+        formData.email,
+        formData.recoveryCode,
+        formData.newPassword
+      );
+
+      Alert.alert(
+        'Account Recovered',
+        'Your new master password is set. Your recovery code still works - keep your emergency kit safe.'
+      );
+      // Navigation handled by _layout.tsx
+    } catch (err) {
+      // Error displayed via ErrorMessage component
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Recover Account</Text>
+          <Text style={styles.subtitle}>
+            Enter the recovery code from your emergency kit and choose a new
+            master password
+          </Text>
+        </View>
+
+        <View style={styles.form}>
+          {error && <ErrorMessage message={error} onDismiss={clearError} />}
+
+          <Input
+            label="Email"
+            placeholder="your.email@example.com"
+            value={formData.email}
+            onChangeText={(value) => updateField('email', value)}
+            error={errors.email}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <Input
+            label="Recovery Code"
+            placeholder="24 words separated by spaces"
+            value={formData.recoveryCode}
+            onChangeText={(value) => updateField('recoveryCode', value)}
+            error={errors.recoveryCode}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            numberOfLines={4}
+            style={styles.codeInput}
+          />
+
+          <Input
+            label="New Master Password"
+            placeholder="Create a strong password"
+            value={formData.newPassword}
+            onChangeText={(value) => updateField('newPassword', value)}
+            error={errors.newPassword}
+            isPassword
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <PasswordStrengthMeter
+            password={formData.newPassword}
+            userInputs={[formData.email]}
+          />
+
+          <Input
+            label="Confirm New Password"
+            placeholder="Re-enter your new password"
+            value={formData.confirmPassword}
+            onChangeText={(value) => updateField('confirmPassword', value)}
+            error={errors.confirmPassword}
+            isPassword
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <Button
+            title="Recover Account"
+            onPress={handleRecover}
+            loading={isLoading}
+            style={styles.recoverButton}
+          />
+
+          <Button
+            title="Back"
+            onPress={() => router.back()}
+            variant="secondary"
+            disabled={isLoading}
+          />
+        </View>
+
+        <View style={styles.securityNote}>
+          <Text style={styles.securityIcon}>🔑</Text>
+          <Text style={styles.securityText}>
+            The recovery code is checked on this device and never sent to our
+            servers. Your items stay encrypted and are not affected.
+          </Text>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 24,
+    paddingTop: 60,
+  },
+  header: {
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    lineHeight: 24,
+  },
+  form: {
+    width: '100%',
+  },
+  codeInput: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  recoverButton: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  securityNote: {
+    flexDirection: 'row',
+    backgroundColor: '#F0FDF4',
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 24,
+    alignItems: 'center',
+  },
+  securityIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  securityText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#166534',
+    lineHeight: 18,
+  },
+});
@@ -11,13 +11,17 @@ import {
   Platform,
   ScrollView,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useAuthStore } from '@/store/auth.store';
 import { Input } from '@/components/Input';
 import { Button } from '@/components/Button';
 import { ErrorMessage } from '@/components/ErrorMessage';
-import { isValidEmail, isStrongPassword, getPasswordStrength } from '@/utils/validation';
+import { PasswordStrengthMeter } from '@/components/PasswordStrengthMeter';
+import { PasswordGeneratorSheet } from '@/components/PasswordGeneratorSheet';
+import { isValidEmail } from '@/utils/validation';
+import { getMasterPasswordError } from '@/utils/password-strength';
 
 export default function RegisterScreen() {
   const router = useRouter();
@@ -37,13 +41,19 @@ export default function RegisterScreen() {
     confirmPassword: '',
   });
 
-  const passwordStrength = getPasswordStrength(formData.password);
+  const [showGenerator, setShowGenerator] = useState(false);
 
   const updateField = (field: string, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     setErrors((prev) => ({ ...prev, [field]: '' }));
   };
 
+  const applyGeneratedPassword = (password: string) => {
+    setShowGenerator(false);
+    setFormData((prev) => ({ ...prev, password, confirmPassword: password }));
+    setErrors((prev) => ({ ...prev, password: '', confirmPassword: '' }));
+  };
+
   const validateForm = (): boolean => {
     const newErrors = {
       email: '',
@@ -57,11 +67,18 @@ export default function RegisterScreen() {
       newErrors.email = 'Invalid email format';
     }
 
+    const passwordError = formData.password
+      ? getMasterPasswordError(formData.password, [
+          formData.email,
+          formData.firstName,
+          formData.lastName,
+        ])
+      : null;
+
     if (!formData.password) {
       newErrors.password = 'Password is required';
-    } else if (!isStrongPassword(formData.password)) {
-      newErrors.password =
-        'Password must be at least 8 characters with uppercase, lowercase, and number';
+    } else if (passwordError) {
+      newErrors.password = passwordError;
     }
 
     if (formData.password !== formData.confirmPassword) {
@@ -141,30 +158,29 @@ export default function RegisterScreen() {
             autoCorrect={false}
           />
 
-          <Input
-            label="Master Password"
-            placeholder="Create a strong password"
-            value={formData.password}
-            onChangeText={(value) => updateField('password', value)}
-            error={errors.password}
-            isPassword
-            autoCapitalize="none"
-            autoCorrect={false}
-          />
+          <View>
+            <Input
+              label="Master Password"
+              placeholder="Create a strong password"
+              value={formData.password}
+              onChangeText={(value) => updateField('password', value)}
+              error={errors.password}
+              isPassword
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TouchableOpacity
+              style={styles.generateButton}
+              onPress={() => setShowGenerator(true)}
+            >
+              <Text style={styles.generateButtonText}>🎲 Generate</Text>
+            </TouchableOpacity>
+          </View>
 
-          {formData.password.length > 0 && (
-            <View style={styles.passwordStrength}>
-              <View
-                style={[
-                  styles.strengthBar,
-                  styles[`strength_${passwordStrength.strength}`],
-                ]}
-              />
-              <Text style={styles.strengthText}>
-                Strength: {passwordStrength.label}
-              </Text>
-            </View>
-          )}
+          <PasswordStrengthMeter
+            password={formData.password}
+            userInputs={[formData.email, formData.firstName, formData.lastName]}
+          />
 
           <Input
             label="Confirm Password"
@@ -177,6 +193,14 @@ export default function RegisterScreen() {
             autoCorrect={false}
           />
 
+          <PasswordGeneratorSheet
+            visible={showGenerator}
+            initialMode="passphrase"
+            recordHistory={false}
+            onClose={() => setShowGenerator(false)}
+            onUse={applyGeneratedPassword}
+          />
+
           <Button
             title="Create Account"
             onPress={handleRegister}
@@ -241,29 +265,19 @@ const styles = StyleSheet.create({
   form: {
     width: '100%',
   },
-  passwordStrength: {
-    marginBottom: 16,
-  },
-  strengthBar: {
-    height: 4,
-    borderRadius: 2,
-    marginBottom: 4,
-  },
-  strength_weak: {
-    width: '33%',
-    backgroundColor: '#EF4444',
+  generateButton: {
+    position: 'absolute',
+    right: 12,
+    top: 36,
+    backgroundColor: '#3B82F6',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
   },
-  strength_medium: {
-    width: '66%',
-    backgroundColor: '#F59E0B',
-  },
-  strength_strong: {
-    width: '100%',
-    backgroundColor: '#10B981',
-  },
-  strengthText: {
+  generateButtonText: {
+    color: '#FFFFFF',
     fontSize: 12,
-    color: '#6B7280',
+    fontWeight: '600',
   },
   registerButton: {
     marginTop: 8,
@@ -19,6 +19,7 @@ import {
 } from 'react-native';
 import * as LocalAuthentication from 'expo-local-authentication';
 import * as SecureStore from 'expo-secure-store';
+import { useRouter } from 'expo-router';
 import { useAuthStore } from '@/store/auth.store';
 import { Input } from '@/components/Input';
 import { Button } from '@/components/Button';
@@ -26,6 +27,7 @@ import { ErrorMessage } from '@/components/ErrorMessage';
 import ENV from '@/config/env';
 
 export default function UnlockScreen() {
+  const router = useRouter();
   const { user, unlockApp, logout, isLoading, error, clearError } = useAuthStore();
   const [password, setPassword] = useState('');
   const [biometricAvailable, setBiometricAvailable] = useState(false);
@@ -66,7 +68,7 @@ export default function UnlockScreen() {
         // Get stored master password from secure store
         // Note: This is encrypted and only accessible after biometric auth
         const storedPassword = await SecureStore.getItemAsync(
-          'vaultguard_biometric_password'
+          ENV.STORAGE_KEYS.BIOMETRIC_PASSWORD
         );
 
         if (storedPassword) {
@@ -98,7 +100,7 @@ export default function UnlockScreen() {
       // Save password for biometric unlock if enabled
       if (biometricEnabled) {
         await SecureStore.setItemAsync(
-          'vaultguard_biometric_password',
+          ENV.STORAGE_KEYS.BIOMETRIC_PASSWORD,
           password
         );
       }
@@ -181,13 +183,20 @@ export default function UnlockScreen() {
             onPress={handleLogout}
             variant="secondary"
           />
+
+          <TouchableOpacity
+            style={styles.forgotButton}
+            onPress={() => router.push('/(auth)/recover')}
+          >
+            <Text style={styles.forgotText}>Forgot master password?</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.securityNote}>
           <Text style={styles.securityIcon}>🔐</Text>
           <Text style={styles.securityText}>
             Your vault is encrypted with your master password. We cannot
-            recover it if you forget it.
+            recover it - if you forget it, use your recovery code.
           </Text>
         </View>
       </View>
@@ -254,6 +263,15 @@ const styles = StyleSheet.create({
   unlockButton: {
     marginBottom: 12,
   },
+  forgotButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  forgotText: {
+    fontSize: 14,
+    color: '#3B82F6',
+    fontWeight: '500',
+  },
   securityNote: {
     flexDirection: 'row',
     backgroundColor: '#FEF3C7',
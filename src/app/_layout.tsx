@@ -13,7 +13,14 @@ import { Loading } from '@/components/Loading';
 export default function RootLayout() {
   const router = useRouter();
   const segments = useSegments();
-  const { isAuthenticated, encryptionKey, isLoading, loadSession, lockApp } = useAuthStore();
+  const {
+    isAuthenticated,
+    encryptionKeyId,
+    pendingRecoveryCode,
+    isLoading,
+    loadSession,
+    lockApp,
+  } = useAuthStore();
 
   // Load session on app start
   useEffect(() => {
@@ -25,7 +32,7 @@ export default function RootLayout() {
     const subscription = AppState.addEventListener(
       'change',
       (nextAppState: AppStateStatus) => {
-        if (nextAppState === 'background' && isAuthenticated && encryptionKey) {
+        if (nextAppState === 'background' && isAuthenticated && encryptionKeyId) {
           // Lock app when going to background
           lockApp();
         }
@@ -35,7 +42,7 @@ export default function RootLayout() {
     return () => {
       subscription.remove();
     };
-  }, [isAuthenticated, encryptionKey, lockApp]);
+  }, [isAuthenticated, encryptionKeyId, lockApp]);
 
   // Handle navigation based on auth state
   useEffect(() => {
@@ -44,17 +51,28 @@ export default function RootLayout() {
     const inAuthGroup = segments[0] === '(auth)';
     const inAppGroup = segments[0] === '(app)';
 
+    // Share links open without an account or unlocked session
+    if (segments[0] === 'share') return;
+
     if (!isAuthenticated && !inAuthGroup) {
       // Not authenticated, redirect to login
       router.replace('/(auth)/login');
-    } else if (isAuthenticated && !encryptionKey && !segments.includes('unlock')) {
-      // Authenticated but locked, redirect to unlock
+    } else if (
+      isAuthenticated &&
+      !encryptionKeyId &&
+      !segments.includes('unlock') &&
+      !segments.includes('recover')
+    ) {
+      // Authenticated but locked, redirect to unlock (or recovery if forgotten)
       router.replace('/(auth)/unlock');
-    } else if (isAuthenticated && encryptionKey && !inAppGroup) {
+    } else if (isAuthenticated && encryptionKeyId && !inAppGroup) {
       // Authenticated and unlocked, redirect to app
-      router.replace('/(app)/vaults');
+      // (a new recovery code from registration is shown first)
+      router.replace(
+        pendingRecoveryCode ? '/(app)/recovery-kit' : '/(app)/vaults'
+      );
     }
-  }, [isAuthenticated, encryptionKey, isLoading, segments]);
+  }, [isAuthenticated, encryptionKeyId, isLoading, segments]);
 
   if (isLoading) {
     return <Loading message="Loading..." />;
@@ -0,0 +1,264 @@
+/**
+ * Shared Item Viewer Screen
+ *
+ * Opens a one-time share link (vaultguard://share/<id>#<key>).
+ * Works without an account or unlocked session - the key comes from the
+ * link fragment, which expo-router drops, so the full URL is read via
+ * expo-linking.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { ShareService, OpenedItemShare } from '@/services/share.service';
+import { Loading } from '@/components/Loading';
+import { Button } from '@/components/Button';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { copyToClipboard } from '@/utils/clipboard';
+import {
+  VaultItemType,
+  PasswordItemData,
+  SecureNoteData,
+  CreditCardData,
+} from '@/types';
+
+interface SharedField {
+  label: string;
+  value: string;
+  secret?: boolean;
+}
+
+/**
+ * Fields to show for each item type (empty ones are skipped)
+ */
+function getSharedFields(opened: OpenedItemShare): SharedField[] {
+  const { type, data } = opened.payload;
+  let fields: SharedField[];
+
+  if (type === VaultItemType.NOTE) {
+    fields = [{ label: 'Note', value: (data as SecureNoteData).content }];
+  } else if (type === VaultItemType.CARD) {
+    const card = data as CreditCardData;
+    fields = [
+      { label: 'Cardholder', value: card.cardholderName },
+      { label: 'Card Number', value: card.cardNumber, secret: true },
+      { label: 'Expiry', value: `${card.expiryMonth}/${card.expiryYear}` },
+      { label: 'CVV', value: card.cvv, secret: true },
+      { label: 'Notes', value: card.notes ?? '' },
+    ];
+  } else {
+    const login = data as PasswordItemData;
+    fields = [
+      { label: 'Username/Email', value: login.username },
+      { label: 'Password', value: login.password, secret: true },
+      {
+        label: 'Authenticator Key',
+        value: login.totp?.secret ?? '',
+        secret: true,
+      },
+      { label: 'Website', value: login.url ?? '' },
+      { label: 'Notes', value: login.notes ?? '' },
+    ];
+  }
+
+  return fields.filter((field) => field.value);
+}
+
+export default function SharedItemScreen() {
+  const router = useRouter();
+  const url = Linking.useURL();
+  const openedUrl = useRef<string | null>(null);
+
+  const [opened, setOpened] = useState<OpenedItemShare | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    // Each fetch uses up a view - open every link only once
+    if (!url || openedUrl.current === url) return;
+    openedUrl.current = url;
+
+    setError(null);
+    ShareService.openItemShare(url)
+      .then(setOpened)
+      .catch((err: any) => setError(err.message || 'Failed to open link'));
+  }, [url]);
+
+  const toggleReveal = (label: string) => {
+    setRevealed((prev) => {
+      const next = new Set(prev);
+      if (next.has(label)) {
+        next.delete(label);
+      } else {
+        next.add(label);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = async (field: SharedField) => {
+    await copyToClipboard(field.value);
+    Alert.alert('Copied', `${field.label} copied to clipboard (will clear in 60s)`);
+  };
+
+  const handleClose = () => {
+    // Root layout sends the user on to login, unlock or their vaults
+    router.replace('/(auth)/login');
+  };
+
+  if (error) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.content}>
+          <ErrorMessage message={error} />
+          <Button title="Close" onPress={handleClose} variant="secondary" />
+        </View>
+      </View>
+    );
+  }
+
+  if (!opened) {
+    return <Loading message="Opening shared item..." />;
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.icon}>📨</Text>
+        <Text style={styles.name}>{opened.payload.name}</Text>
+        {opened.payload.sharedBy ? (
+          <Text style={styles.sharedBy}>
+            Shared by {opened.payload.sharedBy}
+          </Text>
+        ) : null}
+      </View>
+
+      {getSharedFields(opened).map((field) => (
+        <View key={field.label} style={styles.field}>
+          <Text style={styles.fieldLabel}>{field.label}</Text>
+          <View style={styles.fieldValue}>
+            <Text style={styles.fieldText}>
+              {field.secret && !revealed.has(field.label)
+                ? '••••••••••••'
+                : field.value}
+            </Text>
+            {field.secret && (
+              <TouchableOpacity
+                onPress={() => toggleReveal(field.label)}
+                style={styles.actionButton}
+              >
+                <Text style={styles.actionText}>
+                  {revealed.has(field.label) ? '🙈' : '👁️'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => handleCopy(field)}
+              style={styles.actionButton}
+            >
+              <Text style={styles.actionText}>📋</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.warningNote}>
+        <Text style={styles.warningIcon}>⏳</Text>
+        <Text style={styles.warningText}>
+          {opened.remainingViews > 0
+            ? `This link can be opened ${opened.remainingViews} more ${
+                opened.remainingViews === 1 ? 'time' : 'times'
+              } until ${new Date(opened.expiresAt).toLocaleString()}.`
+            : 'This was the last view - the link no longer works.'}{' '}
+          Save what you need now.
+        </Text>
+      </View>
+
+      <Button title="Close" onPress={handleClose} variant="secondary" />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    padding: 24,
+    paddingTop: 60,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  icon: {
+    fontSize: 64,
+    marginBottom: 12,
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  sharedBy: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  field: {
+    marginBottom: 20,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 6,
+    textTransform: 'uppercase',
+  },
+  fieldValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 12,
+    borderRadius: 8,
+  },
+  fieldText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  actionButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  actionText: {
+    fontSize: 20,
+  },
+  warningNote: {
+    flexDirection: 'row',
+    backgroundColor: '#FEF3C7',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 24,
+    alignItems: 'flex-start',
+  },
+  warningIcon: {
+    fontSize: 16,
+    marginRight: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#92400E',
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,353 @@
+/**
+ * Vault Item Form Component
+ *
+ * Fields for each item type, used by the create and edit screens
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { Input } from './Input';
+import { PasswordGeneratorSheet } from './PasswordGeneratorSheet';
+import { UsernameGeneratorSheet } from './UsernameGeneratorSheet';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+import { VaultItemType } from '@/types';
+import { parseTotpInput, TotpConfig } from '@/crypto';
+import {
+  formatCardNumber,
+  getCardBrand,
+  getCvvLength,
+  CARD_BRAND_LABELS,
+} from '@/utils/validation';
+import { ItemFormValues, ItemFormErrors } from '@/utils/item-form';
+
+interface ItemFormProps {
+  type: VaultItemType;
+  values: ItemFormValues;
+  errors: ItemFormErrors;
+  onChange: (values: ItemFormValues) => void;
+}
+
+/**
+ * Parsed authenticator settings (null while empty or invalid)
+ */
+function parseTotp(input: string): TotpConfig | null {
+  if (!input.trim()) return null;
+  try {
+    return parseTotpInput(input);
+  } catch (err) {
+    return null;
+  }
+}
+
+export function ItemForm({ type, values, errors, onChange }: ItemFormProps) {
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [showUsernameGenerator, setShowUsernameGenerator] = useState(false);
+  const totpConfig = parseTotp(values.totp);
+  const cardBrand = getCardBrand(values.cardNumber);
+
+  const setField = (field: keyof ItemFormValues, value: string) => {
+    onChange({ ...values, [field]: value });
+  };
+
+  const updateTotp = (value: string) => {
+    const config = parseTotp(value);
+    // Name an empty item after the issuer of a pasted otpauth:// link
+    onChange({
+      ...values,
+      totp: value,
+      name: values.name || config?.issuer || '',
+      username: values.username || config?.accountName || '',
+    });
+  };
+
+  const pasteTotp = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (text) {
+      updateTotp(text);
+    }
+  };
+
+  const applyGeneratedPassword = (password: string) => {
+    setShowGenerator(false);
+    setField('password', password);
+  };
+
+  const applyGeneratedUsername = (username: string) => {
+    setShowUsernameGenerator(false);
+    setField('username', username);
+  };
+
+  if (type === VaultItemType.NOTE) {
+    return (
+      <>
+        <Input
+          label="Name"
+          placeholder="e.g., Wi-Fi Details"
+          value={values.name}
+          onChangeText={(value) => setField('name', value)}
+          error={errors.name}
+        />
+
+        <Input
+          label="Note"
+          placeholder="Write your secure note..."
+          value={values.content}
+          onChangeText={(value) => setField('content', value)}
+          error={errors.content}
+          multiline
+          numberOfLines={8}
+          style={styles.contentInput}
+        />
+      </>
+    );
+  }
+
+  if (type === VaultItemType.CARD) {
+    return (
+      <>
+        <Input
+          label="Name"
+          placeholder="e.g., Personal Visa"
+          value={values.name}
+          onChangeText={(value) => setField('name', value)}
+          error={errors.name}
+        />
+
+        <Input
+          label="Cardholder Name"
+          placeholder="Name on card"
+          value={values.cardholderName}
+          onChangeText={(value) => setField('cardholderName', value)}
+          error={errors.cardholderName}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+
+        <View>
+          <Input
+            label="Card Number"
+            placeholder="1234 5678 9012 3456"
+            value={values.cardNumber}
+            onChangeText={(value) =>
+              setField('cardNumber', formatCardNumber(value))
+            }
+            error={errors.cardNumber}
+            keyboardType="number-pad"
+            maxLength={23}
+          />
+          {cardBrand !== 'unknown' && (
+            <Text style={styles.cardBrand}>{CARD_BRAND_LABELS[cardBrand]}</Text>
+          )}
+        </View>
+
+        <View style={styles.row}>
+          <View style={styles.rowField}>
+            <Input
+              label="Expiry Month"
+              placeholder="MM"
+              value={values.expiryMonth}
+              onChangeText={(value) =>
+                setField('expiryMonth', value.replace(/\D/g, ''))
+              }
+              error={errors.expiry}
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+          </View>
+          <View style={styles.rowField}>
+            <Input
+              label="Expiry Year"
+              placeholder="YYYY"
+              value={values.expiryYear}
+              onChangeText={(value) =>
+                setField('expiryYear', value.replace(/\D/g, ''))
+              }
+              keyboardType="number-pad"
+              maxLength={4}
+            />
+          </View>
+          <View style={styles.rowField}>
+            <Input
+              label="CVV"
+              placeholder={'•'.repeat(getCvvLength(cardBrand))}
+              value={values.cvv}
+              onChangeText={(value) => setField('cvv', value.replace(/\D/g, ''))}
+              error={errors.cvv}
+              keyboardType="number-pad"
+              maxLength={getCvvLength(cardBrand)}
+              isPassword
+            />
+          </View>
+        </View>
+
+        <Input
+          label="Notes (Optional)"
+          placeholder="Billing address, PIN hint..."
+          value={values.notes}
+          onChangeText={(value) => setField('notes', value)}
+          multiline
+          numberOfLines={3}
+          style={styles.notesInput}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Input
+        label="Name"
+        placeholder="e.g., Gmail Account"
+        value={values.name}
+        onChangeText={(value) => setField('name', value)}
+        error={errors.name}
+      />
+
+      <View>
+        <Input
+          label="Username/Email"
+          placeholder="your.email@example.com"
+          value={values.username}
+          onChangeText={(value) => setField('username', value)}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={styles.generateButton}
+          onPress={() => setShowUsernameGenerator(true)}
+        >
+          <Text style={styles.generateButtonText}>🎲 Generate</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View>
+        <Input
+          label="Password"
+          placeholder="Enter password"
+          value={values.password}
+          onChangeText={(value) => setField('password', value)}
+          error={errors.password}
+          isPassword
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={styles.generateButton}
+          onPress={() => setShowGenerator(true)}
+        >
+          <Text style={styles.generateButtonText}>🎲 Generate</Text>
+        </TouchableOpacity>
+      </View>
+
+      <PasswordStrengthMeter
+        password={values.password}
+        userInputs={[values.username, values.name, values.url]}
+      />
+
+      <View>
+        <Input
+          label="Authenticator Key (Optional)"
+          placeholder="otpauth:// link or setup key"
+          value={values.totp}
+          onChangeText={updateTotp}
+          error={errors.totp}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={styles.generateButton}
+          onPress={pasteTotp}
+        >
+          <Text style={styles.generateButtonText}>📋 Paste</Text>
+        </TouchableOpacity>
+        {totpConfig && (
+          <Text style={styles.totpHint}>
+            {totpConfig.encoding === 'steam'
+              ? 'Steam Guard'
+              : `${totpConfig.digits} digits · ${totpConfig.period}s · ${totpConfig.algorithm}`}
+            {totpConfig.issuer ? ` · ${totpConfig.issuer}` : ''}
+          </Text>
+        )}
+      </View>
+
+      <Input
+        label="Website URL (Optional)"
+        placeholder="https://example.com"
+        value={values.url}
+        onChangeText={(value) => setField('url', value)}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+      />
+
+      <Input
+        label="Notes (Optional)"
+        placeholder="Additional information..."
+        value={values.notes}
+        onChangeText={(value) => setField('notes', value)}
+        multiline
+        numberOfLines={3}
+        style={styles.notesInput}
+      />
+
+      <PasswordGeneratorSheet
+        visible={showGenerator}
+        onClose={() => setShowGenerator(false)}
+        onUse={applyGeneratedPassword}
+      />
+
+      <UsernameGeneratorSheet
+        visible={showUsernameGenerator}
+        onClose={() => setShowUsernameGenerator(false)}
+        onUse={applyGeneratedUsername}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  generateButton: {
+    position: 'absolute',
+    right: 12,
+    top: 36,
+    backgroundColor: '#3B82F6',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+  },
+  generateButtonText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  totpHint: {
+    fontSize: 12,
+    color: '#10B981',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  notesInput: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  contentInput: {
+    height: 200,
+    textAlignVertical: 'top',
+  },
+  cardBrand: {
+    position: 'absolute',
+    right: 12,
+    top: 40,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowField: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,668 @@
+/**
+ * Password Generator Sheet Component
+ *
+ * Bottom sheet to tune and preview a generated password or diceware
+ * passphrase. Options are remembered for next time; entropy shows the
+ * strength. Used and copied values go to the encrypted generator history.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Switch,
+  TextInput,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Button } from './Button';
+import { Input } from './Input';
+import { copyToClipboard } from '@/utils/clipboard';
+import { useGeneratorStore, GeneratorMode } from '@/store/generator.store';
+import {
+  generatePassword,
+  getPasswordEntropy,
+  generatePassphrase,
+  getPassphraseEntropy,
+  getWordlists,
+  CHARACTER_CLASSES,
+  DEFAULT_SYMBOLS,
+  PASSWORD_LENGTH_MIN,
+  PASSWORD_LENGTH_MAX,
+  PASSPHRASE_WORDS_MIN,
+  PASSPHRASE_WORDS_MAX,
+  CharacterClass,
+  PasswordGeneratorOptions,
+  PassphraseOptions,
+  PassphraseCapitalization,
+} from '@/crypto';
+
+const CLASS_LABELS: Record<CharacterClass, string> = {
+  lowercase: 'Lowercase (a-z)',
+  uppercase: 'Uppercase (A-Z)',
+  digits: 'Digits (0-9)',
+  symbols: 'Symbols',
+};
+
+const MODES: { mode: GeneratorMode; label: string }[] = [
+  { mode: 'password', label: 'Password' },
+  { mode: 'passphrase', label: 'Passphrase' },
+];
+
+const SEPARATORS = [
+  { value: '-', label: '-' },
+  { value: '.', label: '.' },
+  { value: '_', label: '_' },
+  { value: ' ', label: 'Space' },
+  { value: '', label: 'None' },
+];
+
+const CAPITALIZATIONS: { value: PassphraseCapitalization; label: string }[] = [
+  { value: 'lowercase', label: 'lower' },
+  { value: 'capitalize', label: 'Title' },
+  { value: 'uppercase', label: 'UPPER' },
+];
+
+interface PasswordGeneratorSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onUse: (password: string) => void;
+  initialMode?: GeneratorMode; // Mode to show on open (default: last used)
+  recordHistory?: boolean; // false for the master password (default: true)
+}
+
+/**
+ * Describe entropy bits for the strength label
+ */
+function getEntropyLabel(bits: number): { label: string; color: string } {
+  if (bits < 50) return { label: 'Weak', color: '#EF4444' };
+  if (bits < 75) return { label: 'Fair', color: '#F59E0B' };
+  if (bits < 100) return { label: 'Strong', color: '#10B981' };
+  return { label: 'Very strong', color: '#059669' };
+}
+
+export function PasswordGeneratorSheet({
+  visible,
+  onClose,
+  onUse,
+  initialMode,
+  recordHistory = true,
+}: PasswordGeneratorSheetProps) {
+  const {
+    mode,
+    passwordOptions: options,
+    passphraseOptions,
+    loadOptions,
+    setMode,
+    setPasswordOptions,
+    setPassphraseOptions,
+    addToHistory,
+  } = useGeneratorStore();
+  const wordlists = getWordlists();
+
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [lengthText, setLengthText] = useState(String(options.length));
+
+  useEffect(() => {
+    if (visible) {
+      loadOptions().then(() => initialMode && setMode(initialMode));
+    }
+  }, [visible, initialMode, loadOptions, setMode]);
+
+  useEffect(() => {
+    setLengthText(String(options.length));
+  }, [options.length]);
+
+  const generate = (): string =>
+    mode === 'passphrase'
+      ? generatePassphrase(passphraseOptions)
+      : generatePassword(options);
+
+  // New password whenever the mode or options change
+  useEffect(() => {
+    if (!visible) return;
+    try {
+      setPassword(
+        mode === 'passphrase'
+          ? generatePassphrase(passphraseOptions)
+          : generatePassword(options)
+      );
+      setError(null);
+    } catch (err: any) {
+      setPassword('');
+      setError(err.message);
+    }
+  }, [visible, mode, options, passphraseOptions]);
+
+  const regenerate = () => {
+    try {
+      setPassword(generate());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const record = (value: string) => {
+    if (recordHistory) {
+      addToHistory(value, mode);
+    }
+  };
+
+  const handleCopy = async () => {
+    await copyToClipboard(password);
+    record(password);
+  };
+
+  const handleUse = () => {
+    record(password);
+    onUse(password);
+  };
+
+  const updatePassphraseOptions = (changes: Partial<PassphraseOptions>) => {
+    setPassphraseOptions({ ...passphraseOptions, ...changes });
+  };
+
+  const setWordCount = (wordCount: number) => {
+    updatePassphraseOptions({
+      wordCount: Math.min(
+        PASSPHRASE_WORDS_MAX,
+        Math.max(PASSPHRASE_WORDS_MIN, wordCount)
+      ),
+    });
+  };
+
+  const updateOptions = (changes: Partial<PasswordGeneratorOptions>) => {
+    setPasswordOptions({ ...options, ...changes });
+  };
+
+  const setLength = (length: number) => {
+    updateOptions({
+      length: Math.min(PASSWORD_LENGTH_MAX, Math.max(PASSWORD_LENGTH_MIN, length)),
+    });
+  };
+
+  const commitLengthText = () => {
+    const length = parseInt(lengthText, 10);
+    if (Number.isNaN(length)) {
+      setLengthText(String(options.length));
+    } else {
+      setLength(length);
+    }
+  };
+
+  const toggleClass = (characterClass: CharacterClass, enabled: boolean) => {
+    updateOptions({ classes: { ...options.classes, [characterClass]: enabled } });
+  };
+
+  const setMinimum = (characterClass: CharacterClass, minimum: number) => {
+    updateOptions({
+      minimums: { ...options.minimums, [characterClass]: Math.max(0, minimum) },
+    });
+  };
+
+  const entropy = error
+    ? 0
+    : mode === 'passphrase'
+      ? getPassphraseEntropy(passphraseOptions)
+      : getPasswordEntropy(options);
+  const strength = getEntropyLabel(entropy);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Generator</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.options}>
+            {MODES.map((option) => (
+              <TouchableOpacity
+                key={option.mode}
+                style={[styles.option, mode === option.mode && styles.optionSelected]}
+                onPress={() => setMode(option.mode)}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    mode === option.mode && styles.optionTextSelected,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.preview}>
+            <Text style={styles.previewText} selectable>
+              {password || '—'}
+            </Text>
+            {!!password && (
+              <TouchableOpacity onPress={handleCopy} style={styles.previewButton}>
+                <Text style={styles.previewButtonText}>📋</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={regenerate} style={styles.previewButton}>
+              <Text style={styles.previewButtonText}>🔄</Text>
+            </TouchableOpacity>
+          </View>
+
+          {error ? (
+            <Text style={styles.error}>{error}</Text>
+          ) : (
+            <Text style={[styles.entropy, { color: strength.color }]}>
+              {strength.label} · ~{Math.round(entropy)} bits of entropy
+            </Text>
+          )}
+
+          {mode === 'passphrase' ? (
+            <>
+              <Text style={styles.sectionLabel}>Words</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setWordCount(passphraseOptions.wordCount - 1)}
+                >
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>{passphraseOptions.wordCount}</Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setWordCount(passphraseOptions.wordCount + 1)}
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperHint}>
+                  {PASSPHRASE_WORDS_MIN}–{PASSPHRASE_WORDS_MAX}
+                </Text>
+              </View>
+
+              <Text style={styles.sectionLabel}>Separator</Text>
+              <View style={styles.options}>
+                {SEPARATORS.map((separator) => (
+                  <TouchableOpacity
+                    key={separator.label}
+                    style={[
+                      styles.option,
+                      passphraseOptions.separator === separator.value &&
+                        styles.optionSelected,
+                    ]}
+                    onPress={() =>
+                      updatePassphraseOptions({ separator: separator.value })
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.optionText,
+                        passphraseOptions.separator === separator.value &&
+                          styles.optionTextSelected,
+                      ]}
+                    >
+                      {separator.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.sectionLabel}>Capitalization</Text>
+              <View style={styles.options}>
+                {CAPITALIZATIONS.map((capitalization) => (
+                  <TouchableOpacity
+                    key={capitalization.value}
+                    style={[
+                      styles.option,
+                      passphraseOptions.capitalization === capitalization.value &&
+                        styles.optionSelected,
+                    ]}
+                    onPress={() =>
+                      updatePassphraseOptions({
+                        capitalization: capitalization.value,
+                      })
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.optionText,
+                        passphraseOptions.capitalization === capitalization.value &&
+                          styles.optionTextSelected,
+                      ]}
+                    >
+                      {capitalization.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {wordlists.length > 1 && (
+                <>
+                  <Text style={styles.sectionLabel}>Wordlist</Text>
+                  <View style={styles.options}>
+                    {wordlists.map((wordlist) => (
+                      <TouchableOpacity
+                        key={wordlist.id}
+                        style={[
+                          styles.option,
+                          passphraseOptions.wordlistId === wordlist.id &&
+                            styles.optionSelected,
+                        ]}
+                        onPress={() =>
+                          updatePassphraseOptions({ wordlistId: wordlist.id })
+                        }
+                      >
+                        <Text
+                          style={[
+                            styles.optionText,
+                            passphraseOptions.wordlistId === wordlist.id &&
+                              styles.optionTextSelected,
+                          ]}
+                        >
+                          {wordlist.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              <View style={styles.classRow}>
+                <Switch
+                  value={passphraseOptions.includeNumber}
+                  onValueChange={(includeNumber) =>
+                    updatePassphraseOptions({ includeNumber })
+                  }
+                  trackColor={{ false: '#D1D5DB', true: '#93C5FD' }}
+                  thumbColor={
+                    passphraseOptions.includeNumber ? '#3B82F6' : '#F3F4F6'
+                  }
+                />
+                <Text style={styles.classLabel}>Include a number</Text>
+              </View>
+            </>
+          ) : (
+            <>
+            <Text style={styles.sectionLabel}>Length</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => setLength(options.length - 1)}
+              >
+                <Text style={styles.stepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <TextInput
+                style={styles.lengthInput}
+                value={lengthText}
+                onChangeText={(value) => setLengthText(value.replace(/\D/g, ''))}
+                onEndEditing={commitLengthText}
+                keyboardType="number-pad"
+                maxLength={3}
+              />
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => setLength(options.length + 1)}
+              >
+                <Text style={styles.stepperButtonText}>+</Text>
+              </TouchableOpacity>
+              <Text style={styles.stepperHint}>
+                {PASSWORD_LENGTH_MIN}–{PASSWORD_LENGTH_MAX}
+              </Text>
+            </View>
+
+            <Text style={styles.sectionLabel}>Characters</Text>
+            {CHARACTER_CLASSES.map((characterClass) => (
+              <View key={characterClass} style={styles.classRow}>
+                <Switch
+                  value={options.classes[characterClass]}
+                  onValueChange={(enabled) => toggleClass(characterClass, enabled)}
+                  trackColor={{ false: '#D1D5DB', true: '#93C5FD' }}
+                  thumbColor={options.classes[characterClass] ? '#3B82F6' : '#F3F4F6'}
+                />
+                <Text style={styles.classLabel}>{CLASS_LABELS[characterClass]}</Text>
+                {options.classes[characterClass] && (
+                  <View style={styles.minimum}>
+                    <Text style={styles.minimumLabel}>min</Text>
+                    <TouchableOpacity
+                      style={styles.smallStepperButton}
+                      onPress={() =>
+                        setMinimum(characterClass, options.minimums[characterClass] - 1)
+                      }
+                    >
+                      <Text style={styles.stepperButtonText}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.minimumValue}>
+                      {options.minimums[characterClass]}
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.smallStepperButton}
+                      onPress={() =>
+                        setMinimum(characterClass, options.minimums[characterClass] + 1)
+                      }
+                    >
+                      <Text style={styles.stepperButtonText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))}
+
+            {options.classes.symbols && (
+              <Input
+                label="Symbol Set"
+                placeholder={DEFAULT_SYMBOLS}
+                value={options.symbols}
+                onChangeText={(symbols) => updateOptions({ symbols })}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.symbolsInput}
+              />
+            )}
+
+            <View style={styles.classRow}>
+              <Switch
+                value={options.excludeAmbiguous}
+                onValueChange={(excludeAmbiguous) => updateOptions({ excludeAmbiguous })}
+                trackColor={{ false: '#D1D5DB', true: '#93C5FD' }}
+                thumbColor={options.excludeAmbiguous ? '#3B82F6' : '#F3F4F6'}
+              />
+              <Text style={styles.classLabel}>
+                Avoid look-alikes (l 1 I | O 0 o)
+              </Text>
+            </View>
+            </>
+          )}
+
+          <Button
+            title={mode === 'passphrase' ? 'Use Passphrase' : 'Use Password'}
+            onPress={handleUse}
+            disabled={!password}
+            style={styles.useButton}
+          />
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  content: {
+    padding: 24,
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 18,
+    color: '#1F2937',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  previewButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  previewButtonText: {
+    fontSize: 22,
+  },
+  entropy: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 24,
+  },
+  error: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginBottom: 24,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  optionSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  smallStepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  lengthInput: {
+    width: 64,
+    height: 40,
+    marginHorizontal: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    textAlign: 'center',
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  stepperValue: {
+    width: 64,
+    marginHorizontal: 8,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  stepperHint: {
+    marginLeft: 12,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  classRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  classLabel: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  minimum: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  minimumLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginRight: 6,
+  },
+  minimumValue: {
+    width: 28,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  symbolsInput: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  useButton: {
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,85 @@
+/**
+ * Password Strength Meter Component
+ *
+ * Strength bar, estimated crack time and tips for improving a password
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { getPasswordStrength } from '@/utils/password-strength';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  userInputs?: (string | undefined | null)[]; // Email, name... to penalize
+}
+
+export function PasswordStrengthMeter({
+  password,
+  userInputs = [],
+}: PasswordStrengthMeterProps) {
+  const inputsKey = userInputs.join('\n');
+  const strength = useMemo(
+    () => (password ? getPasswordStrength(password, inputsKey.split('\n')) : null),
+    [password, inputsKey]
+  );
+
+  if (!strength) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.bar,
+            {
+              width: `${((strength.score + 1) / 5) * 100}%`,
+              backgroundColor: strength.color,
+            },
+          ]}
+        />
+      </View>
+      <Text style={styles.label}>
+        Strength: <Text style={{ color: strength.color }}>{strength.label}</Text>
+        {' · '}Time to crack: {strength.crackTime}
+      </Text>
+      {strength.warning && <Text style={styles.warning}>{strength.warning}</Text>}
+      {strength.suggestions.map((suggestion) => (
+        <Text key={suggestion} style={styles.suggestion}>
+          • {suggestion}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E7EB',
+    marginBottom: 4,
+  },
+  bar: {
+    height: 4,
+    borderRadius: 2,
+  },
+  label: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  warning: {
+    fontSize: 12,
+    color: '#B45309',
+    marginTop: 4,
+  },
+  suggestion: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,141 @@
+/**
+ * Live TOTP Code Component
+ *
+ * Shows the current authenticator code with a countdown to the next one
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import {
+  generateTotp,
+  getTotpRemainingSeconds,
+  TotpConfig,
+} from '@/crypto';
+
+const TICK_MS = 1000;
+const EXPIRING_SECONDS = 5;
+
+interface TotpCodeProps {
+  config: TotpConfig;
+  onCopy: (code: string) => void;
+}
+
+export function TotpCode({ config, onCopy }: TotpCodeProps) {
+  const [code, setCode] = useState<string | null>(null);
+  const [remaining, setRemaining] = useState(getTotpRemainingSeconds(config));
+
+  useEffect(() => {
+    let cancelled = false;
+    let lastStep = -1;
+
+    const tick = async () => {
+      const now = Date.now();
+      setRemaining(getTotpRemainingSeconds(config, now));
+
+      const step = Math.floor(now / 1000 / config.period);
+      if (step === lastStep) return;
+      lastStep = step;
+
+      try {
+        const next = await generateTotp(config, now);
+        if (!cancelled) setCode(next);
+      } catch (error) {
+        console.error('Failed to generate TOTP code:', error);
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, TICK_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [config]);
+
+  // Group digits for readability: 123 456 / 1234 5678
+  const displayCode =
+    code && config.encoding === 'decimal'
+      ? code.replace(new RegExp(`(.{${code.length / 2}})`), '$1 ')
+      : code;
+  const expiring = remaining <= EXPIRING_SECONDS;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.codeColumn}>
+        <Text style={[styles.code, expiring && styles.codeExpiring]}>
+          {displayCode ?? '••• •••'}
+        </Text>
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressBar,
+              expiring && styles.progressBarExpiring,
+              { width: `${(remaining / config.period) * 100}%` },
+            ]}
+          />
+        </View>
+      </View>
+      <Text style={[styles.remaining, expiring && styles.codeExpiring]}>
+        {remaining}s
+      </Text>
+      <TouchableOpacity
+        onPress={() => code && onCopy(code)}
+        style={styles.copyButton}
+        disabled={!code}
+      >
+        <Text style={styles.copyText}>📋</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 12,
+    borderRadius: 8,
+  },
+  codeColumn: {
+    flex: 1,
+  },
+  code: {
+    fontSize: 24,
+    fontWeight: '600',
+    letterSpacing: 2,
+    color: '#1F2937',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  codeExpiring: {
+    color: '#EF4444',
+  },
+  progressTrack: {
+    height: 3,
+    backgroundColor: '#E5E7EB',
+    borderRadius: 2,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: 3,
+    backgroundColor: '#3B82F6',
+  },
+  progressBarExpiring: {
+    backgroundColor: '#EF4444',
+  },
+  remaining: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginHorizontal: 8,
+    minWidth: 32,
+    textAlign: 'right',
+  },
+  copyButton: {
+    padding: 4,
+  },
+  copyText: {
+    fontSize: 20,
+  },
+});
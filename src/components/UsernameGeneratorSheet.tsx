@@ -0,0 +1,413 @@
+/**
+ * Username Generator Sheet Component
+ *
+ * Bottom sheet to generate a username or email alias for a new login.
+ * Used values go to the encrypted generator history and can be picked again.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { Button } from './Button';
+import { Input } from './Input';
+import { useGeneratorStore } from '@/store/generator.store';
+import { useAuthStore } from '@/store/auth.store';
+import {
+  generateUsername,
+  USERNAME_LENGTH_MIN,
+  USERNAME_LENGTH_MAX,
+  UsernameType,
+  UsernameGeneratorOptions,
+} from '@/crypto';
+
+const USERNAME_TYPES: { type: UsernameType; label: string; hint: string }[] = [
+  { type: 'word', label: 'Word', hint: 'A random word, e.g. cactus4821' },
+  { type: 'random', label: 'Random', hint: 'Random letters and digits' },
+  {
+    type: 'plus',
+    label: 'Plus Address',
+    hint: 'Your email with a unique tag - mail still reaches your inbox',
+  },
+  {
+    type: 'catchall',
+    label: 'Catch-all',
+    hint: 'A unique address at a domain that forwards all mail to you',
+  },
+];
+
+interface UsernameGeneratorSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onUse: (username: string) => void;
+}
+
+export function UsernameGeneratorSheet({
+  visible,
+  onClose,
+  onUse,
+}: UsernameGeneratorSheetProps) {
+  const {
+    usernameOptions: options,
+    history,
+    loadOptions,
+    loadHistory,
+    setUsernameOptions,
+    addToHistory,
+  } = useGeneratorStore();
+  const email = useAuthStore((state) => state.user?.email);
+
+  const [username, setUsername] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const usernameHistory = history.filter((entry) => entry.kind === 'username');
+
+  useEffect(() => {
+    if (visible) {
+      loadOptions();
+      loadHistory();
+    }
+  }, [visible, loadOptions, loadHistory]);
+
+  // New username whenever the options change
+  useEffect(() => {
+    if (!visible) return;
+    try {
+      setUsername(generateUsername(options, email));
+      setError(null);
+    } catch (err: any) {
+      setUsername('');
+      setError(err.message);
+    }
+  }, [visible, options, email]);
+
+  const regenerate = () => {
+    try {
+      setUsername(generateUsername(options, email));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const updateOptions = (changes: Partial<UsernameGeneratorOptions>) => {
+    setUsernameOptions({ ...options, ...changes });
+  };
+
+  const setLength = (length: number) => {
+    updateOptions({
+      length: Math.min(USERNAME_LENGTH_MAX, Math.max(USERNAME_LENGTH_MIN, length)),
+    });
+  };
+
+  const handleUse = async (value: string) => {
+    await addToHistory(value, 'username');
+    onUse(value);
+  };
+
+  const selectedType = USERNAME_TYPES.find((t) => t.type === options.type);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Username Generator</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.options}>
+            {USERNAME_TYPES.map((option) => (
+              <TouchableOpacity
+                key={option.type}
+                style={[
+                  styles.option,
+                  options.type === option.type && styles.optionSelected,
+                ]}
+                onPress={() => updateOptions({ type: option.type })}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    options.type === option.type && styles.optionTextSelected,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {selectedType && <Text style={styles.hint}>{selectedType.hint}</Text>}
+
+          <View style={styles.preview}>
+            <Text style={styles.previewText} selectable>
+              {username || '—'}
+            </Text>
+            <TouchableOpacity onPress={regenerate} style={styles.previewButton}>
+              <Text style={styles.previewButtonText}>🔄</Text>
+            </TouchableOpacity>
+          </View>
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          {options.type === 'word' && (
+            <>
+              <View style={styles.switchRow}>
+                <Switch
+                  value={options.capitalize}
+                  onValueChange={(capitalize) => updateOptions({ capitalize })}
+                  trackColor={{ false: '#D1D5DB', true: '#93C5FD' }}
+                  thumbColor={options.capitalize ? '#3B82F6' : '#F3F4F6'}
+                />
+                <Text style={styles.switchLabel}>Capitalize</Text>
+              </View>
+              <View style={styles.switchRow}>
+                <Switch
+                  value={options.includeNumber}
+                  onValueChange={(includeNumber) => updateOptions({ includeNumber })}
+                  trackColor={{ false: '#D1D5DB', true: '#93C5FD' }}
+                  thumbColor={options.includeNumber ? '#3B82F6' : '#F3F4F6'}
+                />
+                <Text style={styles.switchLabel}>Add a number</Text>
+              </View>
+            </>
+          )}
+
+          {options.type === 'random' && (
+            <>
+              <Text style={styles.sectionLabel}>Length</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setLength(options.length - 1)}
+                >
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>{options.length}</Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setLength(options.length + 1)}
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperHint}>
+                  {USERNAME_LENGTH_MIN}–{USERNAME_LENGTH_MAX}
+                </Text>
+              </View>
+            </>
+          )}
+
+          {options.type === 'plus' && (
+            <Text style={styles.hint}>Based on {email || 'your account email'}</Text>
+          )}
+
+          {options.type === 'catchall' && (
+            <Input
+              label="Domain"
+              placeholder="example.com"
+              value={options.domain}
+              onChangeText={(domain) => updateOptions({ domain })}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          )}
+
+          <Button
+            title="Use Username"
+            onPress={() => handleUse(username)}
+            disabled={!username}
+            style={styles.useButton}
+          />
+
+          {usernameHistory.length > 0 && (
+            <View style={styles.history}>
+              <Text style={styles.sectionLabel}>Recently Used</Text>
+              {usernameHistory.map((entry) => (
+                <TouchableOpacity
+                  key={entry.value}
+                  style={styles.historyRow}
+                  onPress={() => handleUse(entry.value)}
+                >
+                  <Text style={styles.historyValue} numberOfLines={1}>
+                    {entry.value}
+                  </Text>
+                  <Text style={styles.historyDate}>
+                    {new Date(entry.createdAt).toLocaleDateString()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  closeText: {
+    fontSize: 16,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  content: {
+    padding: 24,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  optionSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 18,
+    color: '#1F2937',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  previewButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  previewButtonText: {
+    fontSize: 22,
+  },
+  error: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  switchLabel: {
+    marginLeft: 12,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  stepperValue: {
+    width: 64,
+    marginHorizontal: 8,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  stepperHint: {
+    marginLeft: 12,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  useButton: {
+    marginTop: 8,
+  },
+  history: {
+    marginTop: 32,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  historyValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1F2937',
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+  },
+  historyDate: {
+    marginLeft: 12,
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+});
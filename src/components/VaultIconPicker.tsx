@@ -0,0 +1,64 @@
+/**
+ * Vault Icon Picker Component
+ *
+ * Grid of emoji icons stored as Vault.icon
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+
+export const VAULT_ICONS = ['🔒', '🏠', '💼', '🎓', '💳', '🔑', '📱', '🌐'];
+
+export const DEFAULT_VAULT_ICON = VAULT_ICONS[0];
+
+interface VaultIconPickerProps {
+  value: string;
+  onChange: (icon: string) => void;
+  disabled?: boolean;
+}
+
+export function VaultIconPicker({ value, onChange, disabled }: VaultIconPickerProps) {
+  // Keep icons set elsewhere (older clients, web) selectable
+  const icons = VAULT_ICONS.includes(value) ? VAULT_ICONS : [value, ...VAULT_ICONS];
+
+  return (
+    <View style={styles.iconGrid}>
+      {icons.map((icon) => (
+        <TouchableOpacity
+          key={icon}
+          style={[styles.iconOption, value === icon && styles.iconSelected]}
+          onPress={() => onChange(icon)}
+          disabled={disabled}
+        >
+          <Text style={styles.iconEmoji}>{icon}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  iconGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 24,
+  },
+  iconOption: {
+    width: 60,
+    height: 60,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EFF6FF',
+  },
+  iconEmoji: {
+    fontSize: 28,
+  },
+});
@@ -0,0 +1,401 @@
+/**
+ * Vault Members Panel
+ *
+ * Shows who has access to a vault and their roles.
+ * Owners and managers can invite by email (after comparing the invitee's
+ * key fingerprint), change roles and remove members.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useVaultStore } from '@/store/vault.store';
+import { useAuthStore } from '@/store/auth.store';
+import { Input } from './Input';
+import { Button } from './Button';
+import { isValidEmail } from '@/utils/validation';
+import {
+  VAULT_ROLE_LABELS,
+  getVaultRole,
+  canManageMembers,
+  canManageMember,
+  getAssignableRoles,
+} from '@/utils/vault-permissions';
+import { Vault, VaultMember, VaultRole } from '@/types';
+
+interface VaultMembersProps {
+  vault: Vault;
+}
+
+export function VaultMembers({ vault }: VaultMembersProps) {
+  const {
+    members,
+    fetchMembers,
+    findInvitee,
+    inviteMember,
+    updateMemberRole,
+    removeMember,
+  } = useVaultStore();
+  const { user, encryptionKeyId, keyPairId } = useAuthStore();
+
+  const role = getVaultRole(vault);
+  const assignableRoles = getAssignableRoles(role);
+  const vaultMembers = members[vault.id];
+
+  const [expanded, setExpanded] = useState(false);
+  const [isLoadingMembers, setIsLoadingMembers] = useState(false);
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [inviteRole, setInviteRole] = useState<VaultRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const loadMembers = async () => {
+    setIsLoadingMembers(true);
+    try {
+      await fetchMembers(vault.id);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to load members');
+    } finally {
+      setIsLoadingMembers(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!expanded && !vaultMembers) {
+      loadMembers();
+    }
+    setExpanded(!expanded);
+  };
+
+  const handleInvite = async () => {
+    const trimmedEmail = email.trim();
+    if (!isValidEmail(trimmedEmail)) {
+      setEmailError('Invalid email format');
+      return;
+    }
+    if (trimmedEmail.toLowerCase() === user?.email.toLowerCase()) {
+      setEmailError('You already have access to this vault');
+      return;
+    }
+    if (!encryptionKeyId || !keyPairId) {
+      Alert.alert('Error', 'Sharing key not available. Please unlock the app.');
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const invitee = await findInvitee(trimmedEmail);
+
+      Alert.alert(
+        'Verify Sharing Key',
+        `Ask ${invitee.user.email} to read out the sharing key shown in their settings. It must match:\n\n${invitee.fingerprint}`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => setIsInviting(false) },
+          {
+            text: 'Keys Match',
+            onPress: async () => {
+              try {
+                await inviteMember(
+                  vault.id,
+                  invitee.user,
+                  inviteRole,
+                  encryptionKeyId,
+                  keyPairId
+                );
+                setEmail('');
+              } catch (err: any) {
+                Alert.alert('Error', err.message || 'Failed to invite member');
+              } finally {
+                setIsInviting(false);
+              }
+            },
+          },
+        ]
+      );
+    } catch (err: any) {
+      setEmailError(err.message || 'Failed to look up user');
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemove = (member: VaultMember) => {
+    Alert.alert(
+      'Remove Member',
+      `Remove ${member.email} from "${vault.name}"? They keep anything they already copied.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeMember(vault.id, member.userId);
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to remove member');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleMemberPress = (member: VaultMember) => {
+    if (member.userId === user?.id || !canManageMember(role, member.role)) {
+      return;
+    }
+
+    Alert.alert(member.email, `Role: ${VAULT_ROLE_LABELS[member.role]}`, [
+      ...assignableRoles
+        .filter((r) => r !== member.role)
+        .map((r) => ({
+          text: `Make ${VAULT_ROLE_LABELS[r]}`,
+          onPress: async () => {
+            try {
+              await updateMemberRole(vault.id, member.userId, r);
+            } catch (err: any) {
+              Alert.alert('Error', err.message || 'Failed to change role');
+            }
+          },
+        })),
+      {
+        text: 'Remove',
+        style: 'destructive' as const,
+        onPress: () => handleRemove(member),
+      },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const memberCount = vaultMembers?.length ?? vault.memberCount ?? 1;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={handleToggle}>
+        <Text style={styles.headerIcon}>{memberCount > 1 ? '👥' : '🔒'}</Text>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>
+            {memberCount > 1 ? `Shared with ${memberCount - 1}` : 'Only you'}
+          </Text>
+          <Text style={styles.headerSubtitle}>
+            Your role: {VAULT_ROLE_LABELS[role]}
+          </Text>
+        </View>
+        <Text style={styles.headerAction}>
+          {expanded
+            ? 'Hide'
+            : canManageMembers(role)
+              ? 'Manage'
+              : 'Members'}
+        </Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.body}>
+          {isLoadingMembers && !vaultMembers && (
+            <Text style={styles.hint}>Loading members...</Text>
+          )}
+
+          {vaultMembers?.map((member) => {
+            const manageable =
+              member.userId !== user?.id && canManageMember(role, member.role);
+            const name = [member.firstName, member.lastName]
+              .filter(Boolean)
+              .join(' ');
+
+            return (
+              <TouchableOpacity
+                key={member.userId}
+                style={styles.memberRow}
+                onPress={() => handleMemberPress(member)}
+                disabled={!manageable}
+              >
+                <View style={styles.memberInfo}>
+                  <Text style={styles.memberName}>
+                    {name || member.email}
+                    {member.userId === user?.id ? ' (you)' : ''}
+                  </Text>
+                  {name ? (
+                    <Text style={styles.memberEmail}>{member.email}</Text>
+                  ) : null}
+                </View>
+                <View style={styles.roleBadge}>
+                  <Text style={styles.roleBadgeText}>
+                    {VAULT_ROLE_LABELS[member.role]}
+                  </Text>
+                </View>
+                {manageable && <Text style={styles.chevron}>›</Text>}
+              </TouchableOpacity>
+            );
+          })}
+
+          {assignableRoles.length > 0 && (
+            <View style={styles.inviteForm}>
+              <Input
+                label="Invite by Email"
+                placeholder="teammate@example.com"
+                value={email}
+                onChangeText={(value) => {
+                  setEmail(value);
+                  setEmailError('');
+                }}
+                error={emailError}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!isInviting}
+              />
+
+              <View style={styles.roleOptions}>
+                {assignableRoles.map((r) => (
+                  <TouchableOpacity
+                    key={r}
+                    style={[
+                      styles.roleOption,
+                      inviteRole === r && styles.roleOptionSelected,
+                    ]}
+                    onPress={() => setInviteRole(r)}
+                    disabled={isInviting}
+                  >
+                    <Text
+                      style={[
+                        styles.roleOptionText,
+                        inviteRole === r && styles.roleOptionTextSelected,
+                      ]}
+                    >
+                      {VAULT_ROLE_LABELS[r]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Button
+                title="Invite"
+                onPress={handleInvite}
+                loading={isInviting}
+                disabled={!email.trim()}
+              />
+              <Text style={styles.hint}>
+                Removing someone revokes their access, but anything they
+                already saw may have been copied - change those passwords.
+              </Text>
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+  },
+  headerIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  headerAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+  body: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  memberEmail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  roleBadge: {
+    backgroundColor: '#EEF2FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  roleBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  chevron: {
+    fontSize: 20,
+    color: '#D1D5DB',
+    marginLeft: 8,
+  },
+  inviteForm: {
+    marginTop: 16,
+  },
+  roleOptions: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  roleOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    marginRight: 8,
+  },
+  roleOptionSelected: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  roleOptionText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  roleOptionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 8,
+    lineHeight: 16,
+  },
+});
@@ -18,7 +18,11 @@ const ENV = {
   // API_BASE_URL: 'http://localhost:5001',
 
   // Security Settings
-  PBKDF2_ITERATIONS: 100000,
+  KDF_ALGORITHM: 'ARGON2ID' as 'ARGON2ID' | 'PBKDF2-SHA256', // For new KDF profiles
+  ARGON2_ITERATIONS: 2,
+  ARGON2_MEMORY_KIB: 19456, // 19 MiB (OWASP minimum for Argon2id)
+  ARGON2_PARALLELISM: 1,
+  PBKDF2_ITERATIONS: 600000, // Used for new PBKDF2 profiles (OWASP 2023 guidance)
   AES_KEY_LENGTH: 256,
   CLIPBOARD_CLEAR_TIMEOUT_MS: 60000, // 60 seconds
 
@@ -32,6 +36,14 @@ const ENV = {
     REFRESH_TOKEN: 'vaultguard_refresh_token',
     DEVICE_ID: 'vaultguard_device_id',
     BIOMETRIC_ENABLED: 'vaultguard_biometric_enabled',
+    BIOMETRIC_PASSWORD: 'vaultguard_biometric_password',
+    KEY_MIGRATION: 'vaultguard_key_migration',
+    PASSWORD_CHANGE: 'vaultguard_password_change',
+    NAMES_MIGRATED: 'vaultguard_names_migrated',
+    GENERATOR_OPTIONS: 'vaultguard_generator_options',
+    GENERATOR_HISTORY: 'vaultguard_generator_history', // + _<userId>
+    EMERGENCY_CONTACT_KEYS: 'vaultguard_emergency_contact_keys', // Verified fingerprints by access id
+    LOGIN_HASH_ACCOUNTS: 'vaultguard_login_hash_accounts', // Emails known to use a login hash
   },
 };
 
@@ -6,47 +6,133 @@
  * - GCM provides both confidentiality and authenticity
  * - Random IV generated for each encryption (12 bytes for GCM)
  * - Authentication tag (16 bytes) prevents tampering
+ * - Versioned envelope records cipher and key fingerprint (legacy shape still readable)
+ * - Optional additional authenticated data (AAD) binds ciphertext to its context
  * - All encryption happens CLIENT-SIDE ONLY
  * - Server NEVER sees plaintext data
  */
 
 import { decode as base64Decode, encode as base64Encode } from 'base-64';
 
-export interface EncryptedData {
+/**
+ * Current envelope format version written by encryptData
+ * Version 0 is the legacy unversioned shape (encryptedData, iv, authTag only)
+ */
+export const ENVELOPE_VERSION = 1;
+
+export type CipherAlgorithm = 'AES-256-GCM';
+
+const SUPPORTED_ALGORITHMS: CipherAlgorithm[] = ['AES-256-GCM'];
+
+/**
+ * Legacy payload shape written before the envelope was versioned
+ */
+export interface LegacyEncryptedData {
   encryptedData: string; // Base64-encoded ciphertext
   iv: string; // Base64-encoded initialization vector (12 bytes)
   authTag: string; // Base64-encoded authentication tag (16 bytes)
 }
 
+/**
+ * Versioned encryption envelope
+ * Identifies which cipher, key and KDF parameters produced the ciphertext
+ */
+export interface EncryptedData extends LegacyEncryptedData {
+  version: number; // Envelope format version (0 = legacy)
+  algorithm: CipherAlgorithm;
+  keyId?: string; // Fingerprint of the encryption key (never the key itself)
+  kdfParamsRef?: string; // Reference to the KDF profile the key came from
+  aad?: boolean; // Ciphertext is bound to additional authenticated data
+}
+
+export interface EncryptOptions {
+  kdfParamsRef?: string;
+  additionalData?: string; // Context bound into the auth tag (not stored)
+}
+
+export interface DecryptOptions {
+  additionalData?: string; // Must match the value used for encryption
+}
+
 /**
  * Encrypt sensitive data using AES-256-GCM
  * @param plaintext - Data to encrypt (password, note, etc.)
  * @param encryptionKey - Base64-encoded 256-bit key from PBKDF2
- * @returns Encrypted data with IV and auth tag
+ * @param options - Optional envelope metadata and additional authenticated data
+ * @returns Versioned envelope with ciphertext, IV and auth tag
  */
 export async function encryptData(
   plaintext: string,
-  encryptionKey: string
+  encryptionKey: string,
+  options: EncryptOptions = {}
 ): Promise<EncryptedData> {
-  if (!plaintext) {
-    throw new Error('Plaintext data is required');
+  if (!encryptionKey) {
+    throw new Error('Encryption key is required');
   }
 
+  return encryptWithCryptoKey(
+    plaintext,
+    await importAesKey(encryptionKey),
+    await getKeyId(encryptionKey),
+    options
+  );
+}
+
+/**
+ * Decrypt encrypted data using AES-256-GCM
+ * @param encrypted - Versioned envelope or legacy { encryptedData, iv, authTag }
+ * @param encryptionKey - Base64-encoded 256-bit key from PBKDF2
+ * @param options - Additional authenticated data (ignored for envelopes without AAD)
+ * @returns Decrypted plaintext
+ * @throws Error if decryption fails (wrong key, wrong context or tampered data)
+ */
+export async function decryptData(
+  encrypted: EncryptedData | LegacyEncryptedData,
+  encryptionKey: string,
+  options: DecryptOptions = {}
+): Promise<string> {
   if (!encryptionKey) {
     throw new Error('Encryption key is required');
   }
 
-  try {
-    // Convert key from base64 to CryptoKey
-    const keyBytes = base64ToBytes(encryptionKey);
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyBytes.buffer as ArrayBuffer,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
+  return decryptWithCryptoKey(
+    encrypted,
+    await importAesKey(encryptionKey),
+    await getKeyId(encryptionKey),
+    options
+  );
+}
+
+/**
+ * Import a raw key for AES-GCM (non-extractable)
+ * @param encryptionKey - Base64-encoded 256-bit key
+ */
+export async function importAesKey(encryptionKey: string): Promise<CryptoKey> {
+  const keyBytes = base64ToBytes(encryptionKey);
+  return crypto.subtle.importKey(
+    'raw',
+    keyBytes.buffer as ArrayBuffer,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt with an imported key
+ * @param keyId - Fingerprint of the key (see getKeyId), recorded in the envelope
+ */
+export async function encryptWithCryptoKey(
+  plaintext: string,
+  cryptoKey: CryptoKey,
+  keyId: string,
+  options: EncryptOptions = {}
+): Promise<EncryptedData> {
+  if (!plaintext) {
+    throw new Error('Plaintext data is required');
+  }
 
+  try {
     // Generate random IV (12 bytes for GCM)
     const iv = crypto.getRandomValues(new Uint8Array(12));
 
@@ -61,6 +147,9 @@ export async function encryptData(
         name: 'AES-GCM',
         iv: iv,
         tagLength: 128, // 128-bit auth tag (16 bytes)
+        ...(options.additionalData !== undefined && {
+          additionalData: encoder.encode(options.additionalData),
+        }),
       },
       cryptoKey,
       plaintextBytes
@@ -71,11 +160,24 @@ export async function encryptData(
     const ciphertext = encryptedArray.slice(0, -16); // All except last 16 bytes
     const authTag = encryptedArray.slice(-16); // Last 16 bytes
 
-    return {
+    const envelope: EncryptedData = {
+      version: ENVELOPE_VERSION,
+      algorithm: 'AES-256-GCM',
+      keyId,
       encryptedData: bytesToBase64(ciphertext),
       iv: bytesToBase64(iv),
       authTag: bytesToBase64(authTag),
     };
+
+    if (options.kdfParamsRef) {
+      envelope.kdfParamsRef = options.kdfParamsRef;
+    }
+
+    if (options.additionalData !== undefined) {
+      envelope.aad = true;
+    }
+
+    return envelope;
   } catch (error) {
     console.error('Encryption failed:', error);
     throw new Error('Failed to encrypt data');
@@ -83,39 +185,31 @@ export async function encryptData(
 }
 
 /**
- * Decrypt encrypted data using AES-256-GCM
- * @param encrypted - Object with encryptedData, iv, authTag
- * @param encryptionKey - Base64-encoded 256-bit key from PBKDF2
- * @returns Decrypted plaintext
- * @throws Error if decryption fails (wrong key or tampered data)
+ * Decrypt with an imported key
+ * @param keyId - Fingerprint of the key, checked against the envelope
  */
-export async function decryptData(
-  encrypted: EncryptedData,
-  encryptionKey: string
+export async function decryptWithCryptoKey(
+  encrypted: EncryptedData | LegacyEncryptedData,
+  cryptoKey: CryptoKey,
+  keyId: string,
+  options: DecryptOptions = {}
 ): Promise<string> {
-  if (!encrypted?.encryptedData || !encrypted?.iv || !encrypted?.authTag) {
-    throw new Error('Invalid encrypted data structure');
+  const envelope = decodeEncryptedData(encrypted);
+
+  // Fail fast when the envelope names a different key
+  if (envelope.keyId && envelope.keyId !== keyId) {
+    throw new Error('Decryption failed - data was encrypted with a different key');
   }
 
-  if (!encryptionKey) {
-    throw new Error('Encryption key is required');
+  if (envelope.aad && options.additionalData === undefined) {
+    throw new Error('Decryption failed - additional authenticated data is required');
   }
 
   try {
-    // Convert key from base64 to CryptoKey
-    const keyBytes = base64ToBytes(encryptionKey);
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyBytes.buffer as ArrayBuffer,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['decrypt']
-    );
-
     // Convert base64 strings to Uint8Array
-    const ciphertext = base64ToBytes(encrypted.encryptedData);
-    const iv = base64ToBytes(encrypted.iv);
-    const authTag = base64ToBytes(encrypted.authTag);
+    const ciphertext = base64ToBytes(envelope.encryptedData);
+    const iv = base64ToBytes(envelope.iv);
+    const authTag = base64ToBytes(envelope.authTag);
 
     // Combine ciphertext and auth tag (GCM expects them together)
     const encryptedData = new Uint8Array([...ciphertext, ...authTag]);
@@ -126,6 +220,9 @@ export async function decryptData(
         name: 'AES-GCM',
         iv: iv.buffer as ArrayBuffer,
         tagLength: 128,
+        ...(envelope.aad && {
+          additionalData: new TextEncoder().encode(options.additionalData),
+        }),
       },
       cryptoKey,
       encryptedData
@@ -137,31 +234,103 @@ export async function decryptData(
   } catch (error) {
     // Decryption failure means either:
     // 1. Wrong encryption key (wrong master password)
-    // 2. Data has been tampered with (auth tag verification failed)
+    // 2. Data has been tampered with or moved (auth tag / AAD verification failed)
     console.error('Decryption failed:', error);
     throw new Error('Decryption failed - incorrect password or corrupted data');
   }
 }
 
+/**
+ * Decode an encrypted payload from storage or the API
+ * Accepts both the versioned envelope and the legacy three-field shape
+ * @throws Error if the structure is invalid or the envelope is unsupported
+ */
+export function decodeEncryptedData(raw: unknown): EncryptedData {
+  const value = raw as Partial<EncryptedData> | null | undefined;
+
+  if (
+    typeof value?.encryptedData !== 'string' ||
+    typeof value?.iv !== 'string' ||
+    typeof value?.authTag !== 'string' ||
+    !value.encryptedData ||
+    !value.iv ||
+    !value.authTag
+  ) {
+    throw new Error('Invalid encrypted data structure');
+  }
+
+  // Legacy payloads carry no metadata - they were always AES-256-GCM
+  if (value.version === undefined) {
+    return {
+      version: 0,
+      algorithm: 'AES-256-GCM',
+      encryptedData: value.encryptedData,
+      iv: value.iv,
+      authTag: value.authTag,
+    };
+  }
+
+  if (
+    typeof value.version !== 'number' ||
+    value.version < 1 ||
+    value.version > ENVELOPE_VERSION
+  ) {
+    throw new Error(`Unsupported encryption envelope version: ${value.version}`);
+  }
+
+  if (!value.algorithm || !SUPPORTED_ALGORITHMS.includes(value.algorithm)) {
+    throw new Error(`Unsupported encryption algorithm: ${value.algorithm}`);
+  }
+
+  return {
+    version: value.version,
+    algorithm: value.algorithm,
+    keyId: value.keyId,
+    kdfParamsRef: value.kdfParamsRef,
+    aad: value.aad === true ? true : undefined,
+    encryptedData: value.encryptedData,
+    iv: value.iv,
+    authTag: value.authTag,
+  };
+}
+
+/**
+ * Compute a non-secret fingerprint identifying an encryption key
+ * Stored in the envelope so the right key can be picked without trial decryption
+ * @param encryptionKey - Base64-encoded 256-bit key
+ * @returns Base64-encoded 8-byte fingerprint
+ */
+export async function getKeyId(encryptionKey: string): Promise<string> {
+  const label = new TextEncoder().encode('vaultguard-key-id:');
+  const keyBytes = base64ToBytes(encryptionKey);
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new Uint8Array([...label, ...keyBytes])
+  );
+  return bytesToBase64(new Uint8Array(digest).slice(0, 8));
+}
+
 /**
  * Encrypt object (converts to JSON first)
  */
 export async function encryptObject(
   obj: any,
-  encryptionKey: string
+  encryptionKey: string,
+  options?: EncryptOptions
 ): Promise<EncryptedData> {
   const jsonString = JSON.stringify(obj);
-  return encryptData(jsonString, encryptionKey);
+  return encryptData(jsonString, encryptionKey, options);
 }
 
 /**
  * Decrypt to object (parses JSON after decryption)
  */
 export async function decryptObject<T = any>(
-  encrypted: EncryptedData,
-  encryptionKey: string
+  encrypted: EncryptedData | LegacyEncryptedData,
+  encryptionKey: string,
+  options?: DecryptOptions
 ): Promise<T> {
-  const jsonString = await decryptData(encrypted, encryptionKey);
+  const jsonString = await decryptData(encrypted, encryptionKey, options);
   return JSON.parse(jsonString);
 }
 
@@ -2,16 +2,137 @@
  * Crypto Module - Central export for all cryptographic operations
  * 
  * SECURITY ARCHITECTURE:
- * - Zero-knowledge: Server never sees plaintext
+ * - Zero-knowledge: Server never sees plaintext or the master password
  * - Client-side encryption: All crypto operations happen on device
- * - PBKDF2-SHA256: Key derivation with 100k iterations
+ * - Argon2id / PBKDF2-SHA256: Key derivation from a per-account KDF profile
  * - AES-256-GCM: Authenticated encryption
+ * - Key hierarchy: Random account key wrapped by the password-derived key
+ * - Login hash: HKDF of the master key, the only credential sent to the server
+ * - Key check: Encrypted verifier rejects a wrong master password on unlock
+ * - Key manager: Session keys held as non-extractable CryptoKey handles by id
+ * - Recovery key: 24-word code wrapping the account key for account recovery
+ * - Key pair: ECDH P-256 per account, seals vault keys for other users
+ * - Share key: one-time key per share link, carried in the URL fragment
+ * - TOTP: RFC 6238 authenticator codes computed from item secrets
+ * - Password generator: uniform random characters via rejection sampling
+ * - Passphrase: diceware words from the bundled EFF list (pluggable lists)
+ * - Username generator: random words, strings and email aliases
  * - No key persistence: Encryption key only in memory during session
  */
 
-export { deriveEncryptionKey, verifyMasterPassword } from './key-derivation';
-export { encryptData, decryptData, encryptObject, decryptObject } from './aes-gcm';
-export type { EncryptedData } from './aes-gcm';
+export {
+  deriveEncryptionKey,
+  deriveLoginHash,
+  verifyMasterPassword,
+  createKdfProfile,
+  createLegacyKdfProfile,
+  isKdfProfileOutdated,
+} from './key-derivation';
+export type { KdfProfile, KdfAlgorithm } from './key-derivation';
+export {
+  encryptData,
+  decryptData,
+  encryptObject,
+  decryptObject,
+  decodeEncryptedData,
+  getKeyId,
+  ENVELOPE_VERSION,
+} from './aes-gcm';
+export { generateSymmetricKey, wrapKey, unwrapKey } from './key-wrap';
+export { createKeyCheck, verifyKeyCheck } from './key-check';
+export {
+  generateRecoveryCode,
+  normalizeRecoveryCode,
+  isValidRecoveryCode,
+  deriveRecoveryKeys,
+} from './recovery-key';
+export type { RecoveryKeys } from './recovery-key';
+export {
+  generateKeyPair,
+  getPublicKeyFromPrivateKey,
+  getPublicKeyFingerprint,
+  sealKey,
+} from './key-pair';
+export type { KeyPair, SealedKey, SealAlgorithm } from './key-pair';
+export {
+  encryptSharePayload,
+  decryptSharePayload,
+  isValidShareKey,
+} from './share-key';
+export type { SharedPayloadEnvelope } from './share-key';
+export {
+  createTotpConfig,
+  parseTotpInput,
+  parseOtpAuthUri,
+  generateTotp,
+  getTotpRemainingSeconds,
+  validateTotpConfig,
+  normalizeBase32,
+} from './totp';
+export type { TotpConfig, TotpAlgorithm, TotpEncoding } from './totp';
+export {
+  generatePassword,
+  getPasswordEntropy,
+  validatePasswordOptions,
+  getRandomInt,
+  CHARACTER_CLASSES,
+  DEFAULT_PASSWORD_OPTIONS,
+  DEFAULT_SYMBOLS,
+  PASSWORD_LENGTH_MIN,
+  PASSWORD_LENGTH_MAX,
+} from './password-generator';
+export type {
+  PasswordGeneratorOptions,
+  CharacterClass,
+} from './password-generator';
+export {
+  generatePassphrase,
+  getPassphraseEntropy,
+  validatePassphraseOptions,
+  registerWordlist,
+  getWordlists,
+  getWordlist,
+  DEFAULT_PASSPHRASE_OPTIONS,
+  PASSPHRASE_WORDS_MIN,
+  PASSPHRASE_WORDS_MAX,
+} from './passphrase';
+export type {
+  Wordlist,
+  PassphraseOptions,
+  PassphraseCapitalization,
+} from './passphrase';
+export {
+  generateUsername,
+  validateUsernameOptions,
+  DEFAULT_USERNAME_OPTIONS,
+  USERNAME_LENGTH_MIN,
+  USERNAME_LENGTH_MAX,
+} from './username-generator';
+export type {
+  UsernameType,
+  UsernameGeneratorOptions,
+} from './username-generator';
+export {
+  registerKey,
+  registerKeyPair,
+  getKeyPairPublicKey,
+  hasKey,
+  removeKey,
+  clearKeys,
+  openSealedKey,
+  resealKey,
+  encryptWithKey,
+  decryptWithKey,
+  encryptObjectWithKey,
+  decryptObjectWithKey,
+} from './key-manager';
+export type {
+  EncryptedData,
+  LegacyEncryptedData,
+  EncryptOptions,
+  DecryptOptions,
+  CipherAlgorithm,
+} from './aes-gcm';
 
 /**
  * Security Best Practices:
@@ -20,7 +141,8 @@ export type { EncryptedData } from './aes-gcm';
  *    - Not in SecureStore, not in memory after key derivation
  * 
  * 2. NEVER persist encryption key
- *    - Derive on login, keep in Zustand store (memory only)
+ *    - Derive on login, register in the key manager (memory only)
+ *    - Stores and services pass the key id, never the key
  *    - Clear on logout or app background
  * 
  * 3. NEVER log sensitive data
@@ -0,0 +1,53 @@
+/**
+ * Master Key Verifier
+ *
+ * SECURITY NOTES:
+ * - A fixed marker encrypted under the master key (random IV, GCM auth tag)
+ * - Stored server-side next to the wrapped account key
+ * - Lets unlock reject a wrong password before touching any vault data
+ * - Reveals nothing about the key: forging or checking it requires the key
+ */
+
+import {
+  encryptData,
+  decryptData,
+  EncryptedData,
+  LegacyEncryptedData,
+} from './aes-gcm';
+
+const KEY_CHECK_VALUE = 'vaultguard-key-check:v1';
+const KEY_CHECK_AAD = 'key-check';
+
+/**
+ * Create a verifier for a master key
+ * @param masterKey - Base64-encoded key derived from the master password
+ * @param kdfParamsRef - Id of the KDF profile the key came from
+ * @returns Envelope to store with the account keys
+ */
+export async function createKeyCheck(
+  masterKey: string,
+  kdfParamsRef: string
+): Promise<EncryptedData> {
+  return encryptData(KEY_CHECK_VALUE, masterKey, {
+    kdfParamsRef,
+    additionalData: KEY_CHECK_AAD,
+  });
+}
+
+/**
+ * Check a master key against its stored verifier
+ * @returns true if the key (and therefore the password) is correct
+ */
+export async function verifyKeyCheck(
+  keyCheck: EncryptedData | LegacyEncryptedData,
+  masterKey: string
+): Promise<boolean> {
+  try {
+    const value = await decryptData(keyCheck, masterKey, {
+      additionalData: KEY_CHECK_AAD,
+    });
+    return value === KEY_CHECK_VALUE;
+  } catch (error) {
+    return false;
+  }
+}
@@ -1,50 +1,155 @@
 /**
- * Key Derivation using PBKDF2-SHA256
+ * Key Derivation using Argon2id or PBKDF2-SHA256
  * 
  * SECURITY NOTES:
- * - Uses PBKDF2 with 100,000 iterations (OWASP recommended minimum)
- * - Salt is user ID (unique per user)
- * - Master password NEVER stored or sent to server
+ * - Parameters come from the account KDF profile (algorithm, cost, salt)
+ * - Argon2id (memory-hard, RFC 9106) is the default for new profiles
+ * - PBKDF2-SHA256 remains supported so existing accounts can unlock and migrate
+ * - Salt is 16 random bytes generated at registration (legacy accounts: user ID)
+ * - Cost parameters are configurable and can be raised for new profiles
+ * - Server authenticates with a login hash derived from the master key
+ *   (separate HKDF domain) - the master password is NEVER stored or sent
  * - Derived key NEVER persisted, only kept in memory during session
  */
 
 import * as Crypto from 'expo-crypto';
-import { encode as base64Encode } from 'base-64';
+import { decode as base64Decode, encode as base64Encode } from 'base-64';
+import uuid from 'react-native-uuid';
+import { argon2idAsync } from '@noble/hashes/argon2';
+import type { EncryptedData, LegacyEncryptedData } from './aes-gcm';
+import ENV from '@/config/env';
 
-const PBKDF2_ITERATIONS = 100000;
 const KEY_LENGTH = 32; // 256 bits for AES-256
+const SALT_LENGTH = 16; // 128-bit random salt
+
+// Floors for profiles received from the server (guard against downgrades)
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MIN_ARGON2_ITERATIONS = 2;
+const MIN_ARGON2_MEMORY_KIB = 19456; // 19 MiB (OWASP minimum)
+const MAX_ARGON2_PARALLELISM = 16;
+
+// Parameters every account used before KDF profiles existed
+const LEGACY_KDF_PROFILE_ID = 'legacy';
+const LOGIN_HASH_INFO = 'vaultguard:login-hash:v1';
+const LEGACY_PBKDF2_ITERATIONS = 100000;
+
+export type KdfAlgorithm = 'PBKDF2-SHA256' | 'ARGON2ID';
+
+/**
+ * KDF profile - non-secret parameters used to derive the encryption key
+ * Stored server-side as account metadata and fetched before unlock
+ */
+export interface KdfProfile {
+  id: string; // Referenced by envelopes (kdfParamsRef)
+  algorithm: KdfAlgorithm;
+  iterations: number; // PBKDF2 iterations or Argon2id passes
+  memory?: number; // Argon2id memory cost in KiB
+  parallelism?: number; // Argon2id lanes
+  salt: string; // Base64-encoded salt
+}
+
+/**
+ * Create a fresh KDF profile for a new account (or a profile upgrade)
+ * Uses a random salt and the currently configured algorithm and cost
+ */
+export function createKdfProfile(
+  algorithm: KdfAlgorithm = ENV.KDF_ALGORITHM
+): KdfProfile {
+  const salt = bytesToBase64(
+    crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+  );
+
+  if (algorithm === 'ARGON2ID') {
+    return {
+      id: uuid.v4() as string,
+      algorithm,
+      iterations: ENV.ARGON2_ITERATIONS,
+      memory: ENV.ARGON2_MEMORY_KIB,
+      parallelism: ENV.ARGON2_PARALLELISM,
+      salt,
+    };
+  }
+
+  return {
+    id: uuid.v4() as string,
+    algorithm,
+    iterations: ENV.PBKDF2_ITERATIONS,
+    salt,
+  };
+}
+
+/**
+ * Profile matching the original derivation (user ID as salt, 100k iterations)
+ * Used for accounts that have no KDF profile stored server-side
+ */
+export function createLegacyKdfProfile(userId: string): KdfProfile {
+  if (!userId) {
+    throw new Error('User ID is required for legacy KDF profile');
+  }
+
+  return {
+    id: LEGACY_KDF_PROFILE_ID,
+    algorithm: 'PBKDF2-SHA256',
+    iterations: LEGACY_PBKDF2_ITERATIONS,
+    salt: bytesToBase64(stringToBytes(userId)),
+  };
+}
+
+/**
+ * Check whether a profile is weaker than what new accounts get
+ * Outdated profiles are migrated on the next successful unlock
+ */
+export function isKdfProfileOutdated(profile: KdfProfile): boolean {
+  if (
+    profile.id === LEGACY_KDF_PROFILE_ID ||
+    profile.algorithm !== ENV.KDF_ALGORITHM ||
+    base64ToBytes(profile.salt).length < SALT_LENGTH
+  ) {
+    return true;
+  }
+
+  if (profile.algorithm === 'ARGON2ID') {
+    return (
+      profile.iterations < ENV.ARGON2_ITERATIONS ||
+      (profile.memory ?? 0) < ENV.ARGON2_MEMORY_KIB
+    );
+  }
+
+  return profile.iterations < ENV.PBKDF2_ITERATIONS;
+}
 
 /**
  * Derive encryption key from master password
  * @param masterPassword - User's master password (NEVER stored)
- * @param userId - User's unique ID (used as salt)
+ * @param profile - Account KDF profile (algorithm, iterations, salt)
  * @returns Base64-encoded 256-bit encryption key
  */
 export async function deriveEncryptionKey(
   masterPassword: string,
-  userId: string
+  profile: KdfProfile
 ): Promise<string> {
   if (!masterPassword || masterPassword.length < 8) {
     throw new Error('Master password must be at least 8 characters');
   }
 
-  if (!userId) {
-    throw new Error('User ID is required as salt');
-  }
+  validateKdfProfile(profile);
 
   try {
     // Convert inputs to byte arrays
     const passwordBytes = stringToBytes(masterPassword);
-    const saltBytes = stringToBytes(userId);
+    const saltBytes = base64ToBytes(profile.salt);
 
-    // Derive key using PBKDF2
+    // Derive key using the profile's algorithm
     // Note: expo-crypto uses PBKDF2-SHA1 by default, for SHA-256 we need Web Crypto API
-    const keyBytes = await pbkdf2Sha256(
-      passwordBytes,
-      saltBytes,
-      PBKDF2_ITERATIONS,
-      KEY_LENGTH
-    );
+    const keyBytes =
+      profile.algorithm === 'ARGON2ID'
+        ? await argon2id(passwordBytes, saltBytes, profile, KEY_LENGTH)
+        : await pbkdf2Sha256(
+            passwordBytes,
+            saltBytes,
+            profile.iterations,
+            KEY_LENGTH
+          );
 
     // Return as base64 for storage in memory
     return bytesToBase64(keyBytes);
@@ -54,6 +159,89 @@ export async function deriveEncryptionKey(
   }
 }
 
+/**
+ * Derive the hash sent to the auth server instead of the master password
+ * HKDF-SHA256 over the master key with its own domain, so the hash is one-way
+ * and reveals nothing usable to decrypt the account key
+ * @param masterKey - Base64-encoded key from deriveEncryptionKey
+ * @returns Base64-encoded 256-bit login hash
+ */
+export async function deriveLoginHash(masterKey: string): Promise<string> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(masterKey).buffer as ArrayBuffer,
+    'HKDF',
+    false,
+    ['deriveBits']
+  );
+
+  const derivedBits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: stringToBytes(LOGIN_HASH_INFO).buffer as ArrayBuffer,
+    },
+    keyMaterial,
+    KEY_LENGTH * 8 // bits
+  );
+
+  return bytesToBase64(new Uint8Array(derivedBits));
+}
+
+/**
+ * Reject malformed or downgraded profiles before deriving
+ */
+function validateKdfProfile(profile: KdfProfile): void {
+  if (!profile?.salt) {
+    throw new Error('KDF profile with salt is required');
+  }
+
+  if (profile.algorithm === 'ARGON2ID') {
+    if (
+      !Number.isInteger(profile.iterations) ||
+      profile.iterations < MIN_ARGON2_ITERATIONS ||
+      !Number.isInteger(profile.memory) ||
+      profile.memory! < MIN_ARGON2_MEMORY_KIB ||
+      !Number.isInteger(profile.parallelism) ||
+      profile.parallelism! < 1 ||
+      profile.parallelism! > MAX_ARGON2_PARALLELISM
+    ) {
+      throw new Error('Argon2id parameters are below the allowed minimum');
+    }
+    return;
+  }
+
+  if (profile.algorithm !== 'PBKDF2-SHA256') {
+    throw new Error(`Unsupported KDF algorithm: ${profile.algorithm}`);
+  }
+
+  if (
+    !Number.isInteger(profile.iterations) ||
+    profile.iterations < MIN_PBKDF2_ITERATIONS
+  ) {
+    throw new Error('KDF iteration count is below the allowed minimum');
+  }
+}
+
+/**
+ * Argon2id implementation (pure TypeScript, runs in Hermes and Node)
+ * Async variant yields to the event loop so the UI stays responsive
+ */
+async function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  profile: KdfProfile,
+  keyLength: number
+): Promise<Uint8Array> {
+  return argon2idAsync(password, salt, {
+    t: profile.iterations,
+    m: profile.memory!,
+    p: profile.parallelism!,
+    dkLen: keyLength,
+  });
+}
+
 /**
  * PBKDF2-SHA256 implementation using Web Crypto API
  * Expo-crypto doesn't support SHA-256, so we use SubtleCrypto
@@ -91,17 +279,17 @@ async function pbkdf2Sha256(
 /**
  * Verify master password by attempting to decrypt a test item
  * @param masterPassword - Password to verify
- * @param userId - User ID
+ * @param profile - Account KDF profile
  * @param encryptedTestData - Known encrypted data (from user's first vault item)
  * @returns true if password is correct
  */
 export async function verifyMasterPassword(
   masterPassword: string,
-  userId: string,
-  encryptedTestData: { encryptedData: string; iv: string; authTag: string }
+  profile: KdfProfile,
+  encryptedTestData: EncryptedData | LegacyEncryptedData
 ): Promise<boolean> {
   try {
-    const key = await deriveEncryptionKey(masterPassword, userId);
+    const key = await deriveEncryptionKey(masterPassword, profile);
     
     // Attempt to decrypt test data
     // If decryption succeeds, password is correct
@@ -122,6 +310,18 @@ function stringToBytes(str: string): Uint8Array {
   return encoder.encode(str);
 }
 
+/**
+ * Convert base64 string to Uint8Array
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = base64Decode(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 /**
  * Convert Uint8Array to base64 string
  */
@@ -0,0 +1,203 @@
+/**
+ * Key Manager - In-memory registry of session keys
+ *
+ * SECURITY NOTES:
+ * - Keys are imported once as non-extractable CryptoKey handles
+ * - Callers hold only the key id (non-secret fingerprint, see getKeyId)
+ * - Raw key material is not kept after import and cannot be exported back
+ * - The account private key is held the same way, so sealed vault keys
+ *   are opened (or re-sealed for another user) without exposing it
+ * - All handles are wiped on lock and logout
+ */
+
+import {
+  importAesKey,
+  encryptWithCryptoKey,
+  decryptWithCryptoKey,
+  getKeyId,
+  EncryptedData,
+  EncryptOptions,
+  DecryptOptions,
+  LegacyEncryptedData,
+} from './aes-gcm';
+import {
+  importPrivateKey,
+  openSealedKeyWithCryptoKey,
+  sealKey,
+  getPublicKeyFingerprint,
+  KeyPair,
+  SealedKey,
+} from './key-pair';
+
+interface KeyPairHandle {
+  privateKey: CryptoKey;
+  publicKey: string;
+}
+
+const keys = new Map<string, CryptoKey>();
+const keyPairs = new Map<string, KeyPairHandle>();
+
+/**
+ * Import a key into the manager
+ * @param key - Base64-encoded 256-bit key (drop the string after this call)
+ * @returns Key id used for all further operations
+ */
+export async function registerKey(key: string): Promise<string> {
+  const keyId = await getKeyId(key);
+
+  if (!keys.has(keyId)) {
+    keys.set(keyId, await importAesKey(key));
+  }
+
+  return keyId;
+}
+
+/**
+ * Check whether a key is loaded
+ */
+export function hasKey(keyId: string): boolean {
+  return keys.has(keyId);
+}
+
+/**
+ * Import a key pair into the manager
+ * @param keyPair - Exported key pair (drop the private key string after this call)
+ * @returns Key pair id (public key fingerprint)
+ */
+export async function registerKeyPair(keyPair: KeyPair): Promise<string> {
+  const keyPairId = await getPublicKeyFingerprint(keyPair.publicKey);
+
+  if (!keyPairs.has(keyPairId)) {
+    keyPairs.set(keyPairId, {
+      privateKey: await importPrivateKey(keyPair.privateKey),
+      publicKey: keyPair.publicKey,
+    });
+  }
+
+  return keyPairId;
+}
+
+/**
+ * Public key of a loaded key pair (e.g. to seal a new vault key for oneself)
+ */
+export function getKeyPairPublicKey(keyPairId: string): string {
+  return getKeyPairHandle(keyPairId).publicKey;
+}
+
+/**
+ * Forget a single key or key pair (e.g. after re-keying away from it)
+ */
+export function removeKey(keyId: string): void {
+  keys.delete(keyId);
+  keyPairs.delete(keyId);
+}
+
+/**
+ * Forget every key and key pair (lock / logout)
+ */
+export function clearKeys(): void {
+  keys.clear();
+  keyPairs.clear();
+}
+
+/**
+ * Open a key sealed for a loaded key pair and load it into the manager
+ * @returns Key id of the opened key (the raw key never leaves the manager)
+ */
+export async function openSealedKey(
+  keyPairId: string,
+  sealed: SealedKey,
+  options?: DecryptOptions
+): Promise<string> {
+  const { privateKey, publicKey } = getKeyPairHandle(keyPairId);
+  return registerKey(
+    await openSealedKeyWithCryptoKey(sealed, privateKey, publicKey, options)
+  );
+}
+
+/**
+ * Re-seal a key sealed for a loaded key pair for another public key
+ * (e.g. sharing a vault key with a new member)
+ */
+export async function resealKey(
+  keyPairId: string,
+  sealed: SealedKey,
+  recipientPublicKey: string,
+  options?: DecryptOptions & EncryptOptions
+): Promise<SealedKey> {
+  const { privateKey, publicKey } = getKeyPairHandle(keyPairId);
+  const key = await openSealedKeyWithCryptoKey(
+    sealed,
+    privateKey,
+    publicKey,
+    options
+  );
+  return sealKey(key, recipientPublicKey, options);
+}
+
+/**
+ * Encrypt a string with a loaded key
+ */
+export async function encryptWithKey(
+  keyId: string,
+  plaintext: string,
+  options?: EncryptOptions
+): Promise<EncryptedData> {
+  return encryptWithCryptoKey(plaintext, getHandle(keyId), keyId, options);
+}
+
+/**
+ * Decrypt a string with a loaded key
+ * @throws Error if the key is not loaded, does not match, or data was tampered with
+ */
+export async function decryptWithKey(
+  keyId: string,
+  encrypted: EncryptedData | LegacyEncryptedData,
+  options?: DecryptOptions
+): Promise<string> {
+  return decryptWithCryptoKey(encrypted, getHandle(keyId), keyId, options);
+}
+
+/**
+ * Encrypt an object (JSON) with a loaded key
+ */
+export async function encryptObjectWithKey(
+  keyId: string,
+  obj: any,
+  options?: EncryptOptions
+): Promise<EncryptedData> {
+  return encryptWithKey(keyId, JSON.stringify(obj), options);
+}
+
+/**
+ * Decrypt an object (JSON) with a loaded key
+ */
+export async function decryptObjectWithKey<T = any>(
+  keyId: string,
+  encrypted: EncryptedData | LegacyEncryptedData,
+  options?: DecryptOptions
+): Promise<T> {
+  return JSON.parse(await decryptWithKey(keyId, encrypted, options));
+}
+
+// ===== Helper Functions =====
+
+function getKeyPairHandle(keyPairId: string): KeyPairHandle {
+  const handle = keyPairs.get(keyPairId);
+
+  if (!handle) {
+    throw new Error('Account key pair is not loaded - unlock the app first');
+  }
+
+  return handle;
+}
+
+function getHandle(keyId: string): CryptoKey {
+  const handle = keys.get(keyId);
+
+  if (!handle) {
+    throw new Error('Encryption key is not loaded - unlock the app first');
+  }
+
+  return handle;
+}
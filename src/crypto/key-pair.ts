@@ -0,0 +1,279 @@
+/**
+ * Asymmetric Key Pair and Sealed Keys (ECDH P-256)
+ *
+ * SECURITY NOTES:
+ * - Each account has one P-256 key pair, generated on device
+ * - Public key is stored server-side so other users can share with it
+ * - Private key is stored server-side only encrypted under the account key
+ * - Sealing a key for a recipient: ephemeral ECDH with their public key,
+ *   HKDF-SHA256 over the shared secret (bound to both public keys), then
+ *   AES-256-GCM key wrapping - only the recipient's private key can open it
+ * - A fresh ephemeral key per seal, so sealed keys reveal nothing about
+ *   each other or the sender
+ */
+
+import { decode as base64Decode, encode as base64Encode } from 'base-64';
+import { EncryptedData, EncryptOptions, DecryptOptions } from './aes-gcm';
+import { wrapKey, unwrapKey } from './key-wrap';
+
+const CURVE = 'P-256';
+const SEAL_INFO = 'vaultguard:sealed-key:v1';
+const SEALING_KEY_LENGTH = 32; // 256 bits for AES-256
+const FINGERPRINT_LENGTH = 16; // Bytes of SHA-256 shown to users
+
+export type SealAlgorithm = 'ECDH-P256-HKDF-SHA256';
+
+export interface KeyPair {
+  publicKey: string; // Base64-encoded raw (uncompressed) public point
+  privateKey: string; // Base64-encoded PKCS#8 private key
+}
+
+/**
+ * A symmetric key encrypted for the holder of a public key
+ */
+export interface SealedKey {
+  algorithm: SealAlgorithm;
+  ephemeralPublicKey: string; // Base64-encoded raw public point (one-time)
+  wrappedKey: EncryptedData; // Key wrapped under the derived sealing key
+}
+
+/**
+ * Generate a new key pair for an account
+ * @returns Exported keys - encrypt the private key before it leaves this call site
+ */
+export async function generateKeyPair(): Promise<KeyPair> {
+  const keyPair = (await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: CURVE },
+    true,
+    ['deriveBits']
+  )) as CryptoKeyPair;
+
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey('raw', keyPair.publicKey),
+    crypto.subtle.exportKey('pkcs8', keyPair.privateKey),
+  ]);
+
+  return {
+    publicKey: bytesToBase64(new Uint8Array(publicKey)),
+    privateKey: bytesToBase64(new Uint8Array(privateKey)),
+  };
+}
+
+/**
+ * Import a private key for opening sealed keys (non-extractable)
+ * @param privateKey - Base64-encoded PKCS#8 private key
+ */
+export async function importPrivateKey(privateKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'pkcs8',
+    base64ToBytes(privateKey).buffer as ArrayBuffer,
+    { name: 'ECDH', namedCurve: CURVE },
+    false,
+    ['deriveBits']
+  );
+}
+
+/**
+ * Compute the public key belonging to a private key
+ * Used to check that a stored public key really matches the private key
+ * @param privateKey - Base64-encoded PKCS#8 private key
+ * @returns Base64-encoded raw (uncompressed) public point
+ */
+export async function getPublicKeyFromPrivateKey(
+  privateKey: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    base64ToBytes(privateKey).buffer as ArrayBuffer,
+    { name: 'ECDH', namedCurve: CURVE },
+    true,
+    ['deriveBits']
+  );
+  const jwk = await crypto.subtle.exportKey('jwk', key);
+
+  // Raw point: 0x04 || x || y
+  return bytesToBase64(
+    new Uint8Array([
+      0x04,
+      ...base64UrlToBytes(jwk.x!),
+      ...base64UrlToBytes(jwk.y!),
+    ])
+  );
+}
+
+/**
+ * Human-comparable fingerprint of a public key
+ * Users compare it out of band before trusting a key for sharing
+ * @returns Hex groups, e.g. "3f9a 07c2 …"
+ */
+export async function getPublicKeyFingerprint(
+  publicKey: string
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    base64ToBytes(publicKey).buffer as ArrayBuffer
+  );
+  const hex = Array.from(new Uint8Array(digest).slice(0, FINGERPRINT_LENGTH))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+/**
+ * Seal (encrypt) a symmetric key for the holder of a public key
+ * @param key - Base64-encoded 256-bit key (e.g. a vault key)
+ * @param recipientPublicKey - Base64-encoded raw public key
+ * @param options - Additional authenticated data binding the key to its context
+ */
+export async function sealKey(
+  key: string,
+  recipientPublicKey: string,
+  options?: EncryptOptions
+): Promise<SealedKey> {
+  const recipient = await importPublicKey(recipientPublicKey);
+  const ephemeral = (await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: CURVE },
+    true,
+    ['deriveBits']
+  )) as CryptoKeyPair;
+  const ephemeralPublicKey = bytesToBase64(
+    new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey))
+  );
+
+  const sealingKey = await deriveSealingKey(
+    ephemeral.privateKey,
+    recipient,
+    ephemeralPublicKey,
+    recipientPublicKey
+  );
+
+  return {
+    algorithm: 'ECDH-P256-HKDF-SHA256',
+    ephemeralPublicKey,
+    wrappedKey: await wrapKey(key, sealingKey, options),
+  };
+}
+
+/**
+ * Open a sealed key with an imported private key
+ * @param publicKey - Public key of the same pair (bound into the derivation)
+ * @returns Base64-encoded key
+ * @throws Error if the key was sealed for someone else or tampered with
+ */
+export async function openSealedKeyWithCryptoKey(
+  sealed: SealedKey,
+  privateKey: CryptoKey,
+  publicKey: string,
+  options?: DecryptOptions
+): Promise<string> {
+  if (sealed?.algorithm !== 'ECDH-P256-HKDF-SHA256') {
+    throw new Error(`Unsupported sealed key algorithm: ${sealed?.algorithm}`);
+  }
+
+  const sealingKey = await deriveSealingKey(
+    privateKey,
+    await importPublicKey(sealed.ephemeralPublicKey),
+    sealed.ephemeralPublicKey,
+    publicKey
+  );
+
+  try {
+    return await unwrapKey(sealed.wrappedKey, sealingKey, options);
+  } catch (error) {
+    throw new Error('Failed to open sealed key - it was not sealed for this account');
+  }
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Import a raw public key (rejects points not on the curve)
+ */
+async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  try {
+    return await crypto.subtle.importKey(
+      'raw',
+      base64ToBytes(publicKey).buffer as ArrayBuffer,
+      { name: 'ECDH', namedCurve: CURVE },
+      true,
+      []
+    );
+  } catch (error) {
+    throw new Error('Invalid public key');
+  }
+}
+
+/**
+ * ECDH shared secret -> HKDF-SHA256 sealing key
+ * Salt binds both public keys so a sealed key cannot be re-targeted
+ */
+async function deriveSealingKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: string,
+  recipientPublicKey: string
+): Promise<string> {
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: publicKey },
+    privateKey,
+    256
+  );
+
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    sharedSecret,
+    'HKDF',
+    false,
+    ['deriveBits']
+  );
+
+  const salt = new Uint8Array([
+    ...base64ToBytes(ephemeralPublicKey),
+    ...base64ToBytes(recipientPublicKey),
+  ]);
+
+  const derivedBits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      info: new TextEncoder().encode(SEAL_INFO).buffer as ArrayBuffer,
+    },
+    keyMaterial,
+    SEALING_KEY_LENGTH * 8 // bits
+  );
+
+  return bytesToBase64(new Uint8Array(derivedBits));
+}
+
+/**
+ * Convert base64 string to Uint8Array
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = base64Decode(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Convert base64url (JWK coordinates) to Uint8Array
+ */
+function base64UrlToBytes(base64Url: string): Uint8Array {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
+
+/**
+ * Convert Uint8Array to base64 string
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return base64Encode(binary);
+}
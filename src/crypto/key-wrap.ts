@@ -0,0 +1,96 @@
+/**
+ * Symmetric Key Generation and Wrapping
+ *
+ * SECURITY NOTES:
+ * - Account key is 256 random bits from a CSPRNG, independent of the password
+ * - Wrapping = AES-256-GCM encryption of the raw key under another key
+ * - Wrapped keys are safe to store server-side (useless without the wrapping key)
+ * - Changing the master password only re-wraps the account key
+ */
+
+import { decode as base64Decode, encode as base64Encode } from 'base-64';
+import {
+  encryptData,
+  decryptData,
+  EncryptedData,
+  EncryptOptions,
+  DecryptOptions,
+  LegacyEncryptedData,
+} from './aes-gcm';
+
+const KEY_LENGTH = 32; // 256 bits for AES-256
+
+/**
+ * Generate a random 256-bit symmetric key
+ * @returns Base64-encoded key
+ */
+export function generateSymmetricKey(): string {
+  const keyBytes = crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+  return bytesToBase64(keyBytes);
+}
+
+/**
+ * Wrap (encrypt) a key under another key
+ * @param key - Base64-encoded key to protect
+ * @param wrappingKey - Base64-encoded key used for wrapping
+ * @param options - Envelope metadata (e.g. KDF profile of the wrapping key)
+ * @returns Envelope containing the wrapped key
+ */
+export async function wrapKey(
+  key: string,
+  wrappingKey: string,
+  options?: EncryptOptions
+): Promise<EncryptedData> {
+  if (base64ToBytes(key).length !== KEY_LENGTH) {
+    throw new Error('Only 256-bit keys can be wrapped');
+  }
+
+  return encryptData(key, wrappingKey, options);
+}
+
+/**
+ * Unwrap (decrypt) a key
+ * @param wrapped - Envelope produced by wrapKey
+ * @param wrappingKey - Base64-encoded key used for wrapping
+ * @param options - Additional authenticated data used when wrapping
+ * @returns Base64-encoded key
+ * @throws Error if the wrapping key is wrong or the envelope was tampered with
+ */
+export async function unwrapKey(
+  wrapped: EncryptedData | LegacyEncryptedData,
+  wrappingKey: string,
+  options?: DecryptOptions
+): Promise<string> {
+  const key = await decryptData(wrapped, wrappingKey, options);
+
+  if (base64ToBytes(key).length !== KEY_LENGTH) {
+    throw new Error('Unwrapped key has invalid length');
+  }
+
+  return key;
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Convert base64 string to Uint8Array
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = base64Decode(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Convert Uint8Array to base64 string
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return base64Encode(binary);
+}
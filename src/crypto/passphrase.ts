@@ -0,0 +1,146 @@
+/**
+ * Diceware Passphrase Generator
+ *
+ * SECURITY NOTES:
+ * - Words are picked uniformly with the password generator's rejection
+ *   sampling - the same as rolling real dice for each word
+ * - Entropy comes from the word count and list size; separator and
+ *   capitalization are public choices and add nothing
+ * - Wordlists are pluggable: register one per language, each needs enough
+ *   unique words to be worth using
+ */
+
+import { getRandomInt } from './password-generator';
+import { EFF_LARGE_WORDLIST } from './wordlists/eff-large';
+
+export interface Wordlist {
+  id: string;
+  name: string; // Shown in the generator
+  language: string; // BCP 47 tag, e.g. 'en'
+  words: readonly string[];
+}
+
+export type PassphraseCapitalization = 'lowercase' | 'capitalize' | 'uppercase';
+
+export interface PassphraseOptions {
+  wordCount: number;
+  separator: string;
+  capitalization: PassphraseCapitalization;
+  includeNumber: boolean; // Add one digit to a random word
+  wordlistId: string;
+}
+
+export const PASSPHRASE_WORDS_MIN = 3;
+export const PASSPHRASE_WORDS_MAX = 20;
+
+const MIN_WORDLIST_SIZE = 1024; // 10 bits per word
+
+export const DEFAULT_PASSPHRASE_OPTIONS: PassphraseOptions = {
+  wordCount: 6,
+  separator: '-',
+  capitalization: 'capitalize',
+  includeNumber: true,
+  wordlistId: EFF_LARGE_WORDLIST.id,
+};
+
+const wordlists = new Map<string, Wordlist>([
+  [EFF_LARGE_WORDLIST.id, EFF_LARGE_WORDLIST],
+]);
+
+/**
+ * Make a wordlist available to the generator
+ * @throws Error if the list is too small or has duplicates
+ */
+export function registerWordlist(wordlist: Wordlist): void {
+  const unique = new Set(wordlist.words);
+
+  if (unique.size !== wordlist.words.length) {
+    throw new Error(`Wordlist "${wordlist.name}" contains duplicate words`);
+  }
+  if (unique.size < MIN_WORDLIST_SIZE) {
+    throw new Error(
+      `Wordlist "${wordlist.name}" needs at least ${MIN_WORDLIST_SIZE} words`
+    );
+  }
+
+  wordlists.set(wordlist.id, wordlist);
+}
+
+export function getWordlists(): Wordlist[] {
+  return Array.from(wordlists.values());
+}
+
+/**
+ * Registered wordlist by id (falls back to the EFF list)
+ */
+export function getWordlist(id: string): Wordlist {
+  return wordlists.get(id) ?? EFF_LARGE_WORDLIST;
+}
+
+/**
+ * Generate a passphrase
+ * @throws Error if the word count is out of range
+ */
+export function generatePassphrase(options: PassphraseOptions): string {
+  validatePassphraseOptions(options);
+
+  const { words } = getWordlist(options.wordlistId);
+  const picked: string[] = [];
+  for (let i = 0; i < options.wordCount; i++) {
+    picked.push(applyCapitalization(words[getRandomInt(words.length)], options));
+  }
+
+  if (options.includeNumber) {
+    const index = getRandomInt(picked.length);
+    picked[index] += String(getRandomInt(10));
+  }
+
+  return picked.join(options.separator);
+}
+
+/**
+ * Entropy in bits: words × log2(list size), plus the digit and its position
+ */
+export function getPassphraseEntropy(options: PassphraseOptions): number {
+  const { words } = getWordlist(options.wordlistId);
+  const wordBits = options.wordCount * Math.log2(words.length);
+  const numberBits = options.includeNumber
+    ? Math.log2(10 * options.wordCount)
+    : 0;
+
+  return wordBits + numberBits;
+}
+
+/**
+ * @throws Error describing the first problem found
+ */
+export function validatePassphraseOptions(
+  options: PassphraseOptions
+): PassphraseOptions {
+  if (
+    !Number.isInteger(options.wordCount) ||
+    options.wordCount < PASSPHRASE_WORDS_MIN ||
+    options.wordCount > PASSPHRASE_WORDS_MAX
+  ) {
+    throw new Error(
+      `Word count must be between ${PASSPHRASE_WORDS_MIN} and ${PASSPHRASE_WORDS_MAX}`
+    );
+  }
+
+  return options;
+}
+
+// ===== Helper Functions =====
+
+function applyCapitalization(word: string, options: PassphraseOptions): string {
+  const locale = getWordlist(options.wordlistId).language;
+
+  switch (options.capitalization) {
+    case 'uppercase':
+      return word.toLocaleUpperCase(locale);
+    case 'capitalize':
+      return word.charAt(0).toLocaleUpperCase(locale) + word.slice(1);
+    default:
+      return word;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Random Password Generator
+ *
+ * SECURITY NOTES:
+ * - Every character is drawn with crypto.getRandomValues
+ * - Rejection sampling keeps each character equally likely (no modulo bias)
+ * - Required characters are placed by a Fisher-Yates shuffle, so their
+ *   positions are as random as the rest
+ */
+
+export type CharacterClass = 'lowercase' | 'uppercase' | 'digits' | 'symbols';
+
+export interface PasswordGeneratorOptions {
+  length: number;
+  classes: Record<CharacterClass, boolean>; // Which classes may be used
+  minimums: Record<CharacterClass, number>; // Required count per enabled class
+  excludeAmbiguous: boolean; // Drop look-alikes such as l/1/I and O/0
+  symbols: string; // Symbol set used by the symbols class
+}
+
+export const PASSWORD_LENGTH_MIN = 4;
+export const PASSWORD_LENGTH_MAX = 128;
+
+export const DEFAULT_SYMBOLS = '!@#$%^&*()_+-=[]{}|;:,.<>?';
+
+export const CHARACTER_CLASSES: CharacterClass[] = [
+  'lowercase',
+  'uppercase',
+  'digits',
+  'symbols',
+];
+
+export const DEFAULT_PASSWORD_OPTIONS: PasswordGeneratorOptions = {
+  length: 20,
+  classes: { lowercase: true, uppercase: true, digits: true, symbols: true },
+  minimums: { lowercase: 1, uppercase: 1, digits: 1, symbols: 1 },
+  excludeAmbiguous: false,
+  symbols: DEFAULT_SYMBOLS,
+};
+
+const CLASS_CHARACTERS: Record<Exclude<CharacterClass, 'symbols'>, string> = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+};
+
+const AMBIGUOUS_CHARACTERS = 'Il1|O0o`\'"';
+
+const UINT32_RANGE = 2 ** 32;
+
+/**
+ * Generate a password
+ * @throws Error if the options cannot produce a password
+ */
+export function generatePassword(options: PasswordGeneratorOptions): string {
+  const charsets = getCharsets(validatePasswordOptions(options));
+  const pool = Object.values(charsets).join('');
+  const characters: string[] = [];
+
+  // Required characters first, then fill from every enabled class
+  for (const characterClass of CHARACTER_CLASSES) {
+    const charset = charsets[characterClass];
+    if (!charset) continue;
+    for (let i = 0; i < options.minimums[characterClass]; i++) {
+      characters.push(pickCharacter(charset));
+    }
+  }
+  while (characters.length < options.length) {
+    characters.push(pickCharacter(pool));
+  }
+
+  // Fisher-Yates shuffle
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = getRandomInt(i + 1);
+    [characters[i], characters[j]] = [characters[j], characters[i]];
+  }
+
+  return characters.join('');
+}
+
+/**
+ * Estimated strength in bits: length × log2(character pool size)
+ * (minimum counts reduce this slightly - shown as an estimate)
+ */
+export function getPasswordEntropy(options: PasswordGeneratorOptions): number {
+  const pool = Object.values(getCharsets(options)).join('');
+  if (pool.length === 0) {
+    return 0;
+  }
+  return options.length * Math.log2(pool.length);
+}
+
+/**
+ * Check options before generating
+ * @throws Error describing the first problem found
+ */
+export function validatePasswordOptions(
+  options: PasswordGeneratorOptions
+): PasswordGeneratorOptions {
+  if (
+    !Number.isInteger(options.length) ||
+    options.length < PASSWORD_LENGTH_MIN ||
+    options.length > PASSWORD_LENGTH_MAX
+  ) {
+    throw new Error(
+      `Length must be between ${PASSWORD_LENGTH_MIN} and ${PASSWORD_LENGTH_MAX}`
+    );
+  }
+
+  const enabled = CHARACTER_CLASSES.filter((c) => options.classes[c]);
+  if (enabled.length === 0) {
+    throw new Error('Choose at least one character type');
+  }
+
+  const charsets = getCharsets(options);
+  for (const characterClass of enabled) {
+    if (!charsets[characterClass]) {
+      throw new Error(
+        characterClass === 'symbols'
+          ? 'Enter at least one symbol'
+          : `No ${characterClass} left after excluding look-alike characters`
+      );
+    }
+  }
+
+  const required = enabled.reduce(
+    (total, c) => total + Math.max(0, options.minimums[c]),
+    0
+  );
+  if (required > options.length) {
+    throw new Error(
+      `Minimum counts add up to ${required}, more than the length of ${options.length}`
+    );
+  }
+
+  return options;
+}
+
+/**
+ * Uniform random integer in [0, max) using rejection sampling
+ */
+export function getRandomInt(max: number): number {
+  if (!Number.isInteger(max) || max < 1 || max > UINT32_RANGE) {
+    throw new Error('Random range must be between 1 and 2^32');
+  }
+
+  // Largest multiple of max that fits - values above it would skew results
+  const limit = UINT32_RANGE - (UINT32_RANGE % max);
+  const buffer = new Uint32Array(1);
+
+  for (;;) {
+    crypto.getRandomValues(buffer);
+    if (buffer[0] < limit) {
+      return buffer[0] % max;
+    }
+  }
+}
+
+// ===== Helper Functions =====
+
+function pickCharacter(charset: string): string {
+  return charset[getRandomInt(charset.length)];
+}
+
+/**
+ * Characters available to each enabled class (empty string = none)
+ */
+function getCharsets(
+  options: PasswordGeneratorOptions
+): Record<CharacterClass, string> {
+  const clean = (characters: string) => {
+    // Unique, visible characters only; a symbol set must not add letters or digits
+    let unique = Array.from(new Set(characters.replace(/\s/g, ''))).join('');
+    if (options.excludeAmbiguous) {
+      unique = unique.replace(/./g, (c) => (AMBIGUOUS_CHARACTERS.includes(c) ? '' : c));
+    }
+    return unique;
+  };
+
+  return {
+    lowercase: options.classes.lowercase ? clean(CLASS_CHARACTERS.lowercase) : '',
+    uppercase: options.classes.uppercase ? clean(CLASS_CHARACTERS.uppercase) : '',
+    digits: options.classes.digits ? clean(CLASS_CHARACTERS.digits) : '',
+    symbols: options.classes.symbols
+      ? clean(options.symbols.replace(/[a-zA-Z0-9]/g, ''))
+      : '',
+  };
+}
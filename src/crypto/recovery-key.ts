@@ -0,0 +1,106 @@
+/**
+ * Account Recovery Key
+ *
+ * SECURITY NOTES:
+ * - 256 random bits from a CSPRNG, shown to the user as 24 BIP39 words
+ *   (the last word carries a checksum, so typos are caught before any request)
+ * - Already high-entropy, so no slow KDF: HKDF-SHA256 splits it into
+ *   a wrapping key (account key) and an auth hash (recovery login)
+ * - Only the auth hash and keys wrapped client-side are sent to the server
+ * - The recovery code itself is NEVER stored - the user keeps it offline
+ */
+
+import { encode as base64Encode } from 'base-64';
+import { entropyToMnemonic, mnemonicToEntropy } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+
+const RECOVERY_ENTROPY_LENGTH = 32; // 256 bits -> 24 words
+const RECOVERY_KEY_INFO = 'vaultguard:recovery-key:v1';
+const RECOVERY_AUTH_INFO = 'vaultguard:recovery-auth:v1';
+
+export interface RecoveryKeys {
+  recoveryKey: string; // Base64-encoded key wrapping the account key
+  authHash: string; // Base64-encoded hash proving the code to the auth server
+}
+
+/**
+ * Generate a new recovery code
+ * @returns 24 space-separated words
+ */
+export function generateRecoveryCode(): string {
+  const entropy = crypto.getRandomValues(
+    new Uint8Array(RECOVERY_ENTROPY_LENGTH)
+  );
+  return entropyToMnemonic(entropy, wordlist);
+}
+
+/**
+ * Normalize user input (case, extra whitespace, line breaks)
+ */
+export function normalizeRecoveryCode(input: string): string {
+  return input.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * Check words and checksum of a recovery code
+ */
+export function isValidRecoveryCode(input: string): boolean {
+  try {
+    return (
+      mnemonicToEntropy(normalizeRecoveryCode(input), wordlist).length ===
+      RECOVERY_ENTROPY_LENGTH
+    );
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Derive the wrapping key and auth hash from a recovery code
+ * @throws Error if the code is not a valid recovery code
+ */
+export async function deriveRecoveryKeys(input: string): Promise<RecoveryKeys> {
+  if (!isValidRecoveryCode(input)) {
+    throw new Error('Invalid recovery code');
+  }
+
+  const entropy = mnemonicToEntropy(normalizeRecoveryCode(input), wordlist);
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    entropy.buffer as ArrayBuffer,
+    'HKDF',
+    false,
+    ['deriveBits']
+  );
+
+  const [recoveryKey, authHash] = await Promise.all(
+    [RECOVERY_KEY_INFO, RECOVERY_AUTH_INFO].map(async (info) => {
+      const derivedBits = await crypto.subtle.deriveBits(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(0),
+          info: new TextEncoder().encode(info).buffer as ArrayBuffer,
+        },
+        keyMaterial,
+        RECOVERY_ENTROPY_LENGTH * 8 // bits
+      );
+      return bytesToBase64(new Uint8Array(derivedBits));
+    })
+  );
+
+  return { recoveryKey, authHash };
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Convert Uint8Array to base64 string
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return base64Encode(binary);
+}
@@ -0,0 +1,86 @@
+/**
+ * One-Time Share Keys
+ *
+ * SECURITY NOTES:
+ * - Each share link gets a fresh random 256-bit key, unrelated to any
+ *   account or vault key
+ * - The key travels only in the URL fragment (after '#'), which is never
+ *   sent to the server - the server stores ciphertext it cannot open
+ * - Fragment uses base64url so the link survives chat apps and mail clients
+ */
+
+import {
+  encryptObject,
+  decryptObject,
+  EncryptedData,
+} from './aes-gcm';
+import { generateSymmetricKey } from './key-wrap';
+
+const SHARE_AAD = JSON.stringify(['item-share', 1]);
+
+export interface SharedPayloadEnvelope {
+  encryptedPayload: EncryptedData;
+  shareKey: string; // base64url, for the link fragment only
+}
+
+/**
+ * Encrypt a payload under a new one-time share key
+ */
+export async function encryptSharePayload(
+  payload: unknown
+): Promise<SharedPayloadEnvelope> {
+  const key = generateSymmetricKey();
+
+  return {
+    encryptedPayload: await encryptObject(payload, key, {
+      additionalData: SHARE_AAD,
+    }),
+    shareKey: toBase64Url(key),
+  };
+}
+
+/**
+ * Decrypt a shared payload with the key from a link fragment
+ * @throws Error if the key is malformed, wrong, or the payload was tampered with
+ */
+export async function decryptSharePayload<T = any>(
+  encryptedPayload: EncryptedData,
+  shareKey: string
+): Promise<T> {
+  if (!isValidShareKey(shareKey)) {
+    throw new Error('Share link is incomplete or damaged');
+  }
+
+  try {
+    return await decryptObject<T>(encryptedPayload, fromBase64Url(shareKey), {
+      additionalData: SHARE_AAD,
+    });
+  } catch (error) {
+    throw new Error('Share link is incomplete or damaged');
+  }
+}
+
+/**
+ * Check that a fragment looks like a 256-bit key
+ * (32 bytes = 43 unpadded base64url characters)
+ */
+export function isValidShareKey(shareKey: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(shareKey);
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Convert base64 to unpadded base64url
+ */
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Convert base64url back to padded base64
+ */
+function fromBase64Url(base64Url: string): string {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+}
@@ -0,0 +1,271 @@
+/**
+ * TOTP Authenticator Codes (RFC 6238)
+ *
+ * SECURITY NOTES:
+ * - The TOTP secret is item data: it is stored only inside the encrypted
+ *   item payload and codes are computed on device
+ * - HMAC-SHA1/SHA256/SHA512 over the 64-bit time step (RFC 4226 truncation)
+ * - Steam Guard codes use the same HMAC-SHA1 step with a 5-character
+ *   alphabet instead of decimal digits
+ */
+
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+export type TotpEncoding = 'decimal' | 'steam';
+
+export interface TotpConfig {
+  secret: string; // Base32 (RFC 4648), as shown by the issuing site
+  algorithm: TotpAlgorithm;
+  digits: number; // 6 or 8 (5 for Steam)
+  period: number; // Seconds per code
+  encoding: TotpEncoding;
+  issuer?: string;
+  accountName?: string;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEAM_ALPHABET = '23456789BCDFGHJKMNPQRTVWXY';
+const STEAM_DIGITS = 5;
+const DEFAULT_PERIOD = 30;
+const MAX_PERIOD = 3600;
+
+const HASH_NAMES: Record<TotpAlgorithm, string> = {
+  SHA1: 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA512: 'SHA-512',
+};
+
+/**
+ * Default settings used by nearly every site
+ */
+export function createTotpConfig(secret: string): TotpConfig {
+  return {
+    secret: normalizeBase32(secret),
+    algorithm: 'SHA1',
+    digits: 6,
+    period: DEFAULT_PERIOD,
+    encoding: 'decimal',
+  };
+}
+
+/**
+ * Parse what the user pasted: an otpauth:// URI, a steam:// URI,
+ * or a bare base32 secret
+ * @throws Error if the input is not a usable TOTP secret
+ */
+export function parseTotpInput(input: string): TotpConfig {
+  const trimmed = input.trim();
+
+  if (/^otpauth:\/\//i.test(trimmed)) {
+    return parseOtpAuthUri(trimmed);
+  }
+
+  if (/^steam:\/\//i.test(trimmed)) {
+    return validateTotpConfig({
+      ...createTotpConfig(trimmed.slice('steam://'.length)),
+      digits: STEAM_DIGITS,
+      encoding: 'steam',
+      issuer: 'Steam',
+    });
+  }
+
+  return validateTotpConfig(createTotpConfig(trimmed));
+}
+
+/**
+ * Parse an otpauth://totp/ URI (Google Authenticator key URI format)
+ * Steam accounts are recognised by issuer "Steam" or encoder=steam
+ */
+export function parseOtpAuthUri(uri: string): TotpConfig {
+  const match = uri.match(/^otpauth:\/\/([^/]+)\/([^?]*)(?:\?(.*))?$/i);
+  if (!match) {
+    throw new Error('Invalid otpauth:// link');
+  }
+
+  const [, type, rawLabel, query = ''] = match;
+  if (type.toLowerCase() !== 'totp') {
+    throw new Error('Only time-based (TOTP) codes are supported');
+  }
+
+  const params = parseQuery(query);
+  const label = safeDecode(rawLabel);
+  const [labelIssuer, labelAccount] = label.includes(':')
+    ? [label.slice(0, label.indexOf(':')), label.slice(label.indexOf(':') + 1)]
+    : [undefined, label];
+  const issuer = params.issuer || labelIssuer?.trim() || undefined;
+  const isSteam =
+    params.encoder?.toLowerCase() === 'steam' ||
+    issuer?.toLowerCase() === 'steam';
+
+  const algorithm = (params.algorithm || 'SHA1').toUpperCase();
+  if (!(algorithm in HASH_NAMES)) {
+    throw new Error(`Unsupported TOTP algorithm: ${params.algorithm}`);
+  }
+
+  return validateTotpConfig({
+    secret: normalizeBase32(params.secret || ''),
+    algorithm: algorithm as TotpAlgorithm,
+    digits: isSteam ? STEAM_DIGITS : Number(params.digits || 6),
+    period: Number(params.period || DEFAULT_PERIOD),
+    encoding: isSteam ? 'steam' : 'decimal',
+    issuer,
+    accountName: labelAccount?.trim() || undefined,
+  });
+}
+
+/**
+ * Generate the code for a point in time
+ * @param timestamp - Milliseconds since epoch (default: now)
+ */
+export async function generateTotp(
+  config: TotpConfig,
+  timestamp: number = Date.now()
+): Promise<string> {
+  const counter = Math.floor(timestamp / 1000 / config.period);
+
+  // 64-bit big-endian counter
+  const message = new Uint8Array(8);
+  new DataView(message.buffer).setUint32(0, Math.floor(counter / 2 ** 32));
+  new DataView(message.buffer).setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32ToBytes(config.secret).buffer as ArrayBuffer,
+    { name: 'HMAC', hash: HASH_NAMES[config.algorithm] },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(
+    await crypto.subtle.sign('HMAC', key, message.buffer as ArrayBuffer)
+  );
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  let code =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  if (config.encoding === 'steam') {
+    let steamCode = '';
+    for (let i = 0; i < STEAM_DIGITS; i++) {
+      steamCode += STEAM_ALPHABET[code % STEAM_ALPHABET.length];
+      code = Math.floor(code / STEAM_ALPHABET.length);
+    }
+    return steamCode;
+  }
+
+  return String(code % 10 ** config.digits).padStart(config.digits, '0');
+}
+
+/**
+ * Seconds until the current code expires
+ */
+export function getTotpRemainingSeconds(
+  config: TotpConfig,
+  timestamp: number = Date.now()
+): number {
+  const elapsed = Math.floor(timestamp / 1000) % config.period;
+  return config.period - elapsed;
+}
+
+/**
+ * Check a config before storing it
+ * @throws Error describing the first problem found
+ */
+export function validateTotpConfig(config: TotpConfig): TotpConfig {
+  if (!config.secret) {
+    throw new Error('Authenticator key is missing');
+  }
+  if (!isValidBase32(config.secret)) {
+    throw new Error(
+      'Authenticator key must be base32 (letters A-Z and digits 2-7)'
+    );
+  }
+
+  const validDigits =
+    config.encoding === 'steam'
+      ? config.digits === STEAM_DIGITS
+      : config.digits === 6 || config.digits === 8;
+  if (!validDigits) {
+    throw new Error('Authenticator codes must have 6 or 8 digits');
+  }
+
+  if (
+    !Number.isInteger(config.period) ||
+    config.period < 1 ||
+    config.period > MAX_PERIOD
+  ) {
+    throw new Error(
+      `Authenticator period must be between 1 and ${MAX_PERIOD} seconds`
+    );
+  }
+
+  return config;
+}
+
+/**
+ * Uppercase and strip spaces, dashes and padding from a base32 secret
+ */
+export function normalizeBase32(secret: string): string {
+  return secret.replace(/[\s-]/g, '').replace(/=+$/, '').toUpperCase();
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Check for a normalized base32 secret of a plausible length
+ */
+function isValidBase32(secret: string): boolean {
+  // At least 80 bits is recommended; shorter legacy keys still exist
+  return /^[A-Z2-7]+$/.test(secret) && secret.length >= 8;
+}
+
+/**
+ * Decode an unpadded base32 string
+ */
+function base32ToBytes(base32: string): Uint8Array {
+  const bytes = new Uint8Array(Math.floor((base32.length * 5) / 8));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (const char of base32) {
+    buffer = (buffer << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >>> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Parse a URI query string into lowercase keys
+ */
+function parseQuery(query: string): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const [key, value = ''] = pair.split('=');
+    params[safeDecode(key).toLowerCase()] = safeDecode(
+      value.replace(/\+/g, ' ')
+    );
+  }
+
+  return params;
+}
+
+/**
+ * Percent-decode, keeping malformed input as-is
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    return value;
+  }
+}
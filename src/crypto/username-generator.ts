@@ -0,0 +1,125 @@
+/**
+ * Username and Email Alias Generator
+ *
+ * SECURITY NOTES:
+ * - Words and characters come from the same rejection sampling as passwords
+ * - Plus addresses keep mail in the account inbox but reveal the real
+ *   address; catch-all aliases hide it (the domain must forward all mail)
+ */
+
+import { getRandomInt } from './password-generator';
+import { EFF_LARGE_WORDLIST } from './wordlists/eff-large';
+
+export type UsernameType = 'word' | 'random' | 'plus' | 'catchall';
+
+export interface UsernameGeneratorOptions {
+  type: UsernameType;
+  capitalize: boolean; // Word: capitalize the first letter
+  includeNumber: boolean; // Word: append four digits
+  length: number; // Random: number of characters
+  domain: string; // Catch-all: domain that receives every address
+}
+
+export const USERNAME_LENGTH_MIN = 6;
+export const USERNAME_LENGTH_MAX = 32;
+
+export const DEFAULT_USERNAME_OPTIONS: UsernameGeneratorOptions = {
+  type: 'word',
+  capitalize: false,
+  includeNumber: true,
+  length: 12,
+  domain: '',
+};
+
+const ALIAS_TAG_LENGTH = 8;
+const RANDOM_CHARACTERS = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const DOMAIN_REGEX = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+/**
+ * Generate a username or email alias
+ * @param email - Account email, required for plus addresses
+ * @throws Error if the options cannot produce a value
+ */
+export function generateUsername(
+  options: UsernameGeneratorOptions,
+  email?: string
+): string {
+  validateUsernameOptions(options, email);
+
+  switch (options.type) {
+    case 'random':
+      return randomString(options.length);
+    case 'plus': {
+      const { local, domain } = splitEmail(email as string);
+      // Replace an existing tag rather than stacking them
+      const base = local.split('+')[0];
+      return `${base}+${randomString(ALIAS_TAG_LENGTH)}@${domain}`;
+    }
+    case 'catchall':
+      return `${randomString(ALIAS_TAG_LENGTH)}@${normalizeDomain(options.domain)}`;
+    default: {
+      const { words } = EFF_LARGE_WORDLIST;
+      let word = words[getRandomInt(words.length)];
+      if (options.capitalize) {
+        word = word.charAt(0).toUpperCase() + word.slice(1);
+      }
+      if (options.includeNumber) {
+        word += String(getRandomInt(10000)).padStart(4, '0');
+      }
+      return word;
+    }
+  }
+}
+
+/**
+ * @throws Error describing the first problem found
+ */
+export function validateUsernameOptions(
+  options: UsernameGeneratorOptions,
+  email?: string
+): UsernameGeneratorOptions {
+  switch (options.type) {
+    case 'random':
+      if (
+        !Number.isInteger(options.length) ||
+        options.length < USERNAME_LENGTH_MIN ||
+        options.length > USERNAME_LENGTH_MAX
+      ) {
+        throw new Error(
+          `Length must be between ${USERNAME_LENGTH_MIN} and ${USERNAME_LENGTH_MAX}`
+        );
+      }
+      break;
+    case 'plus':
+      if (!email || !email.includes('@')) {
+        throw new Error('Plus addresses need your account email');
+      }
+      break;
+    case 'catchall':
+      if (!DOMAIN_REGEX.test(normalizeDomain(options.domain))) {
+        throw new Error('Enter the catch-all domain, e.g. example.com');
+      }
+      break;
+  }
+
+  return options;
+}
+
+// ===== Helper Functions =====
+
+function randomString(length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += RANDOM_CHARACTERS[getRandomInt(RANDOM_CHARACTERS.length)];
+  }
+  return result;
+}
+
+function splitEmail(email: string): { local: string; domain: string } {
+  const at = email.lastIndexOf('@');
+  return { local: email.slice(0, at), domain: email.slice(at + 1) };
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().replace(/^@/, '').toLowerCase();
+}
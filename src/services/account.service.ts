@@ -0,0 +1,51 @@
+/**
+ * Account Service
+ * 
+ * Handles account key metadata:
+ * - Fetch KDF profile and wrapped account key (needed before unlock)
+ * - Update them (registration, KDF upgrades, password changes)
+ * 
+ * SECURITY: Only non-secret parameters (salt, iterations) and keys
+ * wrapped client-side are sent to server
+ */
+
+import { apiClient, handleApiError } from './api';
+import { AccountKeys, UpdateAccountKeysRequest } from '@/types';
+
+export class AccountService {
+  /**
+   * Get key metadata for authenticated user
+   * @returns null if the account predates KDF profiles
+   */
+  static async getKeys(): Promise<AccountKeys | null> {
+    try {
+      const response = await apiClient.get<AccountKeys>('/api/account/keys');
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      if (apiError.status === 404) {
+        return null;
+      }
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Create or update key metadata for authenticated user
+   * Fields sent together are committed atomically
+   */
+  static async updateKeys(
+    request: UpdateAccountKeysRequest
+  ): Promise<AccountKeys> {
+    try {
+      const response = await apiClient.put<AccountKeys>(
+        '/api/account/keys',
+        request
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+}
@@ -2,21 +2,115 @@
  * Authentication Service
  * 
  * Handles user authentication with Auth Service:
+ * - Prelogin (KDF profile + auth scheme for an email)
  * - Register
  * - Login
  * - Logout
  * - Token refresh
+ * - Change password
+ * - Account recovery (recovery code login + password reset)
+ *
+ * SECURITY: The password field carries a login hash derived from the
+ * master key, never the master password (except for legacy accounts,
+ * which are migrated right after their next successful login).
+ * Emails seen using a login hash are remembered on this device, and the
+ * raw password is never sent for them again whatever prelogin says.
  */
 
-import { authClient, saveTokens, clearTokens, handleApiError } from './api';
+import * as SecureStore from 'expo-secure-store';
+
+import {
+  authClient,
+  saveTokens,
+  clearTokens,
+  getAccessToken,
+  handleApiError,
+} from './api';
+import { deriveEncryptionKey, deriveLoginHash } from '@/crypto';
+import ENV from '@/config/env';
 import {
+  PreloginResponse,
   LoginRequest,
   RegisterRequest,
   AuthResponse,
   RefreshTokenRequest,
+  ChangePasswordRequest,
+  SetRecoveryRequest,
+  RecoveryLoginRequest,
+  ResetPasswordRequest,
 } from '@/types';
 
+export interface LoginCredential {
+  password: string; // Value for the password field of login/change-password
+  prelogin: PreloginResponse;
+  masterKey?: string; // Derived along the way (login-hash scheme only)
+}
+
 export class AuthService {
+  /**
+   * Fetch auth scheme and KDF profile for an email (unauthenticated)
+   */
+  static async prelogin(email: string): Promise<PreloginResponse> {
+    try {
+      const response = await authClient.post<PreloginResponse>(
+        '/api/v1/authentication/prelogin',
+        { email }
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Compute the credential the auth server currently expects for an account
+   * @throws Error if the server asks for the raw password of an account
+   * known to use a login hash (downgrade attempt)
+   */
+  static async getLoginCredential(
+    email: string,
+    masterPassword: string
+  ): Promise<LoginCredential> {
+    const prelogin = await this.prelogin(email);
+
+    if (prelogin.authScheme !== 'login-hash') {
+      if (await this.usesLoginHash(email)) {
+        throw new Error(
+          'The server asked for your master password instead of a login hash. Sign-in was stopped to protect it.'
+        );
+      }
+      return { password: masterPassword, prelogin };
+    }
+
+    if (!prelogin.kdfProfile) {
+      throw new Error('Missing KDF profile for login');
+    }
+
+    await this.markLoginHashAccount(email);
+    const masterKey = await deriveEncryptionKey(
+      masterPassword,
+      prelogin.kdfProfile
+    );
+    return { password: await deriveLoginHash(masterKey), prelogin, masterKey };
+  }
+
+  /**
+   * Remember that an account authenticates with a login hash
+   */
+  static async markLoginHashAccount(email: string): Promise<void> {
+    const emails = await this.getLoginHashAccounts();
+    const normalized = email.trim().toLowerCase();
+    if (emails.includes(normalized)) {
+      return;
+    }
+
+    await SecureStore.setItemAsync(
+      ENV.STORAGE_KEYS.LOGIN_HASH_ACCOUNTS,
+      JSON.stringify([...emails, normalized])
+    );
+  }
+
   /**
    * Register new user
    */
@@ -31,6 +125,7 @@ export class AuthService {
 
       // Store tokens securely
       await saveTokens(authData.accessToken, authData.refreshToken);
+      await this.markLoginHashAccount(request.email);
 
       return authData;
     } catch (error) {
@@ -101,4 +196,91 @@ export class AuthService {
       throw new Error(apiError.message);
     }
   }
+
+  /**
+   * Change account password on the auth server
+   */
+  static async changePassword(request: ChangePasswordRequest): Promise<void> {
+    try {
+      const accessToken = await getAccessToken();
+      await authClient.post('/api/v1/authentication/change-password', request, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Register the auth hash of a new recovery code
+   */
+  static async setRecovery(request: SetRecoveryRequest): Promise<void> {
+    try {
+      const accessToken = await getAccessToken();
+      await authClient.put('/api/v1/authentication/recovery', request, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Log in with a recovery code (user forgot the master password)
+   * The session is only good for reading keys and resetting the password
+   */
+  static async recoveryLogin(
+    request: RecoveryLoginRequest
+  ): Promise<AuthResponse> {
+    try {
+      const response = await authClient.post<AuthResponse>(
+        '/api/v1/authentication/recovery/login',
+        request
+      );
+
+      const authData = response.data;
+
+      // Store tokens securely
+      await saveTokens(authData.accessToken, authData.refreshToken);
+
+      return authData;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Set a new master password login hash after a recovery login
+   */
+  static async resetPassword(request: ResetPasswordRequest): Promise<void> {
+    try {
+      const accessToken = await getAccessToken();
+      await authClient.post(
+        '/api/v1/authentication/recovery/reset-password',
+        request,
+        { headers: { Authorization: `Bearer ${accessToken}` } }
+      );
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Check whether this device has seen the account use a login hash
+   */
+  private static async usesLoginHash(email: string): Promise<boolean> {
+    const emails = await this.getLoginHashAccounts();
+    return emails.includes(email.trim().toLowerCase());
+  }
+
+  private static async getLoginHashAccounts(): Promise<string[]> {
+    const raw = await SecureStore.getItemAsync(
+      ENV.STORAGE_KEYS.LOGIN_HASH_ACCOUNTS
+    );
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  }
 }
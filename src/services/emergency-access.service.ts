@@ -0,0 +1,244 @@
+/**
+ * Emergency Access Service
+ *
+ * Handles trusted contacts who can request access to a user's vaults:
+ * - Owner (grantor): invite a contact, approve or deny a request, revoke
+ * - Contact (grantee): accept an invitation, request access, take over
+ *   view-only access once approved or the waiting period has passed
+ *
+ * SECURITY: The owner seals each vault key for the contact's public key at
+ * invite time. The server holds the sealed keys and only turns them into
+ * (view-only) vault memberships after approval or the waiting period -
+ * the contact never receives the owner's account key or master password.
+ * The fingerprint of the contact's key, as verified at invite time, is kept
+ * on this device: keys for later vaults are only sealed while it matches.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { apiClient, handleApiError } from './api';
+import { VaultService } from './vault.service';
+import {
+  EmergencyAccess,
+  EmergencyVaultKey,
+  InviteEmergencyContactRequest,
+  UpdateEmergencyVaultKeysRequest,
+  UserPublicKey,
+  Vault,
+} from '@/types';
+import ENV from '@/config/env';
+
+const BASE_PATH = '/api/emergency-access';
+
+export class EmergencyAccessService {
+  /**
+   * List contacts the authenticated user trusts (user is the grantor)
+   */
+  static async getTrustedContacts(): Promise<EmergencyAccess[]> {
+    try {
+      const response = await apiClient.get<EmergencyAccess[]>(
+        `${BASE_PATH}/trusted`
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * List users who trust the authenticated user (user is the grantee)
+   */
+  static async getGrantedAccess(): Promise<EmergencyAccess[]> {
+    try {
+      const response = await apiClient.get<EmergencyAccess[]>(
+        `${BASE_PATH}/granted`
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Seal keys of the given vaults for a contact
+   * Vaults must have their own vault key (see RekeyService.moveVaultToVaultKey)
+   */
+  static async sealVaultKeys(
+    vaults: Vault[],
+    publicKey: string,
+    keyPairId: string
+  ): Promise<EmergencyVaultKey[]> {
+    return Promise.all(
+      vaults.map(async (vault) => ({
+        vaultId: vault.id,
+        memberKey: await VaultService.resealVaultKey(vault, publicKey, keyPairId),
+      }))
+    );
+  }
+
+  /**
+   * Invite a trusted contact
+   * @param vaultKeys - Owner's vault keys sealed for the contact
+   */
+  static async inviteContact(
+    contact: UserPublicKey,
+    waitDays: number,
+    vaultKeys: EmergencyVaultKey[]
+  ): Promise<EmergencyAccess> {
+    try {
+      const request: InviteEmergencyContactRequest = {
+        granteeId: contact.userId,
+        granteePublicKey: contact.publicKey,
+        waitDays,
+        vaultKeys,
+      };
+      const response = await apiClient.post<EmergencyAccess>(
+        `${BASE_PATH}/invite`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Add sealed keys for vaults created after the invitation
+   */
+  static async addVaultKeys(
+    accessId: string,
+    vaultKeys: EmergencyVaultKey[]
+  ): Promise<EmergencyAccess> {
+    try {
+      const request: UpdateEmergencyVaultKeysRequest = { vaultKeys };
+      const response = await apiClient.put<EmergencyAccess>(
+        `${BASE_PATH}/${accessId}/vault-keys`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Accept an invitation (grantee)
+   */
+  static async acceptInvitation(accessId: string): Promise<EmergencyAccess> {
+    return this.transition(accessId, 'accept');
+  }
+
+  /**
+   * Request access - starts the waiting period (grantee)
+   */
+  static async requestAccess(accessId: string): Promise<EmergencyAccess> {
+    return this.transition(accessId, 'request');
+  }
+
+  /**
+   * Approve a request before the waiting period ends (grantor)
+   */
+  static async approveRequest(accessId: string): Promise<EmergencyAccess> {
+    return this.transition(accessId, 'approve');
+  }
+
+  /**
+   * Deny a pending request (grantor)
+   */
+  static async denyRequest(accessId: string): Promise<EmergencyAccess> {
+    return this.transition(accessId, 'deny');
+  }
+
+  /**
+   * Take over access once granted: the server adds the grantee as a
+   * viewer of each vault with the sealed keys from the invitation
+   */
+  static async takeOverAccess(accessId: string): Promise<void> {
+    try {
+      await apiClient.post(`${BASE_PATH}/${accessId}/access`);
+    } catch (error) {
+      const apiError = handleApiError(error);
+      if (apiError.status === 403) {
+        throw new Error('The waiting period has not passed yet');
+      }
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Remove an emergency contact (grantor) or give up access (grantee)
+   * Also removes any vault access already taken over
+   */
+  static async removeEmergencyAccess(accessId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${BASE_PATH}/${accessId}`);
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Fingerprint of a contact's key as verified by the owner on this device
+   */
+  static async getVerifiedFingerprint(accessId: string): Promise<string | null> {
+    const fingerprints = await this.getVerifiedFingerprints();
+    return fingerprints[accessId] ?? null;
+  }
+
+  /**
+   * Record a contact key fingerprint the owner compared out of band
+   */
+  static async setVerifiedFingerprint(
+    accessId: string,
+    fingerprint: string
+  ): Promise<void> {
+    const fingerprints = await this.getVerifiedFingerprints();
+    await this.saveVerifiedFingerprints({ ...fingerprints, [accessId]: fingerprint });
+  }
+
+  /**
+   * Forget the verified fingerprint of a removed contact
+   */
+  static async removeVerifiedFingerprint(accessId: string): Promise<void> {
+    const fingerprints = await this.getVerifiedFingerprints();
+    delete fingerprints[accessId];
+    await this.saveVerifiedFingerprints(fingerprints);
+  }
+
+  private static async getVerifiedFingerprints(): Promise<
+    Record<string, string>
+  > {
+    const raw = await SecureStore.getItemAsync(
+      ENV.STORAGE_KEYS.EMERGENCY_CONTACT_KEYS
+    );
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  }
+
+  private static async saveVerifiedFingerprints(
+    fingerprints: Record<string, string>
+  ): Promise<void> {
+    await SecureStore.setItemAsync(
+      ENV.STORAGE_KEYS.EMERGENCY_CONTACT_KEYS,
+      JSON.stringify(fingerprints)
+    );
+  }
+
+  private static async transition(
+    accessId: string,
+    action: 'accept' | 'request' | 'approve' | 'deny'
+  ): Promise<EmergencyAccess> {
+    try {
+      const response = await apiClient.post<EmergencyAccess>(
+        `${BASE_PATH}/${accessId}/${action}`
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+}
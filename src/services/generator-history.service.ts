@@ -0,0 +1,154 @@
+/**
+ * Generator History Service
+ *
+ * Keeps generated passwords, passphrases and usernames so a value is not
+ * lost when a signup fails before the item is saved:
+ * - Encrypted with the account key and bound to the user id (AAD)
+ * - Stored on this device only (SecureStore), one list per user
+ * - Capped by entry count and stored size - the oldest entries are dropped first
+ * - Moved to the new account key when the master password changes
+ *
+ * SECURITY: The history is only readable while the app is unlocked
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import {
+  encryptObjectWithKey,
+  decryptObjectWithKey,
+  EncryptedData,
+} from '@/crypto';
+import { GeneratorHistoryEntry } from '@/types';
+import ENV from '@/config/env';
+
+const HISTORY_LIMIT = 50;
+// Encrypted JSON as stored - SecureStore warns about values over 2048 bytes
+const HISTORY_MAX_BYTES = 2000;
+const HISTORY_AAD_VERSION = 1;
+
+/**
+ * SecureStore key for a user's history (keys allow [A-Za-z0-9._-] only)
+ */
+function getStorageKey(userId: string): string {
+  return `${ENV.STORAGE_KEYS.GENERATOR_HISTORY}_${userId.replace(/[^\w.-]/g, '_')}`;
+}
+
+/**
+ * Additional authenticated data tying the history to its owner
+ */
+function getHistoryAad(userId: string): string {
+  return JSON.stringify(['generator-history', HISTORY_AAD_VERSION, userId]);
+}
+
+/**
+ * Newest first, without repeats, within the count limit
+ */
+function capHistory(entries: GeneratorHistoryEntry[]): GeneratorHistoryEntry[] {
+  const seen = new Set<string>();
+  return [...entries]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .filter((entry) => {
+      if (seen.has(entry.value)) return false;
+      seen.add(entry.value);
+      return true;
+    })
+    .slice(0, HISTORY_LIMIT);
+}
+
+/**
+ * Encrypted history as the JSON string stored in SecureStore
+ */
+async function encryptHistory(
+  userId: string,
+  encryptionKeyId: string,
+  history: GeneratorHistoryEntry[]
+): Promise<string> {
+  const encrypted = await encryptObjectWithKey(encryptionKeyId, history, {
+    additionalData: getHistoryAad(userId),
+  });
+  return JSON.stringify(encrypted);
+}
+
+export class GeneratorHistoryService {
+  /**
+   * Load and decrypt the history (empty if nothing was generated yet)
+   * @throws Error if the history cannot be decrypted with this key
+   */
+  static async getHistory(
+    userId: string,
+    encryptionKeyId: string
+  ): Promise<GeneratorHistoryEntry[]> {
+    const raw = await SecureStore.getItemAsync(getStorageKey(userId));
+    if (!raw) return [];
+
+    return decryptObjectWithKey<GeneratorHistoryEntry[]>(
+      encryptionKeyId,
+      JSON.parse(raw) as EncryptedData,
+      { additionalData: getHistoryAad(userId) }
+    );
+  }
+
+  /**
+   * Add an entry to the front of the history
+   * @returns The saved history
+   */
+  static async addEntry(
+    userId: string,
+    encryptionKeyId: string,
+    history: GeneratorHistoryEntry[],
+    entry: GeneratorHistoryEntry
+  ): Promise<GeneratorHistoryEntry[]> {
+    return this.saveHistory(userId, encryptionKeyId, [entry, ...history]);
+  }
+
+  /**
+   * Encrypt and store the history (after applying the limits)
+   * Oldest entries are dropped until the encrypted value fits HISTORY_MAX_BYTES
+   * @returns The saved history
+   */
+  static async saveHistory(
+    userId: string,
+    encryptionKeyId: string,
+    entries: GeneratorHistoryEntry[]
+  ): Promise<GeneratorHistoryEntry[]> {
+    const history = capHistory(entries);
+    let value = await encryptHistory(userId, encryptionKeyId, history);
+
+    while (value.length > HISTORY_MAX_BYTES && history.length > 1) {
+      history.pop();
+      value = await encryptHistory(userId, encryptionKeyId, history);
+    }
+
+    await SecureStore.setItemAsync(getStorageKey(userId), value);
+    return history;
+  }
+
+  /**
+   * Delete the history from this device
+   */
+  static async clearHistory(userId: string): Promise<void> {
+    await SecureStore.deleteItemAsync(getStorageKey(userId));
+  }
+
+  /**
+   * Re-encrypt the history under a new account key (both keys loaded)
+   */
+  static async reencryptHistory(
+    userId: string,
+    fromKeyId: string,
+    toKeyId: string
+  ): Promise<void> {
+    const raw = await SecureStore.getItemAsync(getStorageKey(userId));
+    if (!raw) return;
+
+    const encrypted = JSON.parse(raw) as EncryptedData;
+    // Already moved by an earlier, interrupted run
+    if (encrypted.keyId === toKeyId) return;
+
+    const history = await decryptObjectWithKey<GeneratorHistoryEntry[]>(
+      fromKeyId,
+      encrypted,
+      { additionalData: getHistoryAad(userId) }
+    );
+    await this.saveHistory(userId, toKeyId, history);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Key Pair Service
+ *
+ * Handles the account key pair used for sharing:
+ * - Create a key pair (registration, or first unlock of older accounts)
+ * - Load it into the key manager on unlock
+ * - Re-encrypt the private key when the account key is rotated
+ * - Look up other users' public keys
+ *
+ * SECURITY: The private key only reaches the server encrypted under the
+ * account key, with the public key bound into its AAD; on load the public
+ * key is also recomputed from the private key, so the server cannot swap
+ * in a public key of its own. On device the pair is a non-extractable handle.
+ * A new pair is only generated for accounts that never had one.
+ */
+
+import { apiClient, handleApiError } from './api';
+import { AccountService } from './account.service';
+import {
+  generateKeyPair,
+  getPublicKeyFromPrivateKey,
+  registerKeyPair,
+  encryptWithKey,
+  decryptWithKey,
+  EncryptedData,
+} from '@/crypto';
+import { UserPublicKey } from '@/types';
+
+const PRIVATE_KEY_AAD_VERSION = 1;
+
+/**
+ * Additional authenticated data tying the private key to its public key
+ */
+function getPrivateKeyAad(publicKey: string): string {
+  return JSON.stringify(['account-private-key', PRIVATE_KEY_AAD_VERSION, publicKey]);
+}
+
+export interface CreatedKeyPair {
+  publicKey: string;
+  encryptedPrivateKey: EncryptedData;
+  keyPairId: string; // Key manager id of the loaded pair
+}
+
+export class KeyPairService {
+  /**
+   * Generate a key pair, encrypt its private key and load it
+   * The caller stores publicKey/encryptedPrivateKey with the account keys
+   */
+  static async createKeyPair(encryptionKeyId: string): Promise<CreatedKeyPair> {
+    const keyPair = await generateKeyPair();
+
+    return {
+      publicKey: keyPair.publicKey,
+      encryptedPrivateKey: await encryptWithKey(
+        encryptionKeyId,
+        keyPair.privateKey,
+        { additionalData: getPrivateKeyAad(keyPair.publicKey) }
+      ),
+      keyPairId: await registerKeyPair(keyPair),
+    };
+  }
+
+  /**
+   * Load the account key pair, creating one for accounts that predate it
+   * @returns Key manager id of the pair
+   * @throws Error if the stored pair is missing or does not match
+   * (a replaced pair would orphan every vault key sealed to the old one)
+   */
+  static async loadKeyPair(encryptionKeyId: string): Promise<string> {
+    const keys = await AccountService.getKeys();
+    if (!keys) {
+      throw new Error('Account keys are not set up');
+    }
+
+    if (!keys.hasKeyPair) {
+      const { publicKey, encryptedPrivateKey, keyPairId } =
+        await this.createKeyPair(encryptionKeyId);
+      await AccountService.updateKeys({ publicKey, encryptedPrivateKey });
+      return keyPairId;
+    }
+
+    if (!keys.publicKey || !keys.encryptedPrivateKey) {
+      throw new Error('Sharing key pair is missing from the account keys');
+    }
+
+    let privateKey: string;
+    try {
+      privateKey = await decryptWithKey(
+        encryptionKeyId,
+        keys.encryptedPrivateKey,
+        { additionalData: getPrivateKeyAad(keys.publicKey) }
+      );
+    } catch (error) {
+      throw new Error('Sharing key pair does not match its public key');
+    }
+    if ((await getPublicKeyFromPrivateKey(privateKey)) !== keys.publicKey) {
+      throw new Error('Sharing key pair does not match its public key');
+    }
+
+    return registerKeyPair({ publicKey: keys.publicKey, privateKey });
+  }
+
+  /**
+   * Move the encrypted private key to a new account key
+   * Both keys must be loaded in the key manager
+   */
+  static async reencryptPrivateKey(
+    publicKey: string | undefined,
+    encryptedPrivateKey: EncryptedData,
+    fromKeyId: string,
+    toKeyId: string
+  ): Promise<EncryptedData> {
+    if (!publicKey) {
+      throw new Error('Sharing key pair is missing from the account keys');
+    }
+
+    const additionalData = getPrivateKeyAad(publicKey);
+    const privateKey = await decryptWithKey(fromKeyId, encryptedPrivateKey, {
+      additionalData,
+    });
+    return encryptWithKey(toKeyId, privateKey, { additionalData });
+  }
+
+  /**
+   * Look up another user's public key by email
+   */
+  static async getUserPublicKey(email: string): Promise<UserPublicKey> {
+    try {
+      const response = await apiClient.get<UserPublicKey>(
+        '/api/users/public-key',
+        { params: { email } }
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      if (apiError.status === 404) {
+        throw new Error('No VaultGuard account found for this email');
+      }
+      throw new Error(apiError.message);
+    }
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Recovery Service
+ *
+ * Handles the account recovery key:
+ * - Set up a recovery code (registration, or regenerated from settings)
+ * - Recover an account with the code and set a new master password
+ *
+ * The account key is wrapped by a key derived from the recovery code, so
+ * recovering keeps every item readable - nothing is re-encrypted.
+ *
+ * SECURITY: The recovery code never leaves the device; the server only
+ * gets an auth hash derived from it and keys wrapped client-side
+ */
+
+import { AuthService } from './auth.service';
+import { AccountService } from './account.service';
+import { RekeyService } from './rekey.service';
+import {
+  deriveEncryptionKey,
+  deriveLoginHash,
+  createKdfProfile,
+  generateRecoveryCode,
+  deriveRecoveryKeys,
+  wrapKey,
+  unwrapKey,
+  createKeyCheck,
+  KdfProfile,
+} from '@/crypto';
+import { AccountRecovery, AuthResponse } from '@/types';
+
+export interface RecoveredAccount {
+  authResponse: AuthResponse;
+  kdfProfile: KdfProfile; // Profile of the new master password
+  accountKey: string;
+}
+
+export class RecoveryService {
+  /**
+   * Generate a recovery code for the account key (replaces any previous code)
+   *
+   * The wrapped keys and the auth hash live on different servers: if the
+   * hash cannot be set, the previous wrapped keys are restored so the
+   * previous code keeps working
+   * @returns The recovery code - show it once, it is not stored anywhere
+   * @throws Error saying whether the previous code still works
+   */
+  static async setupRecovery(accountKey: string): Promise<string> {
+    const recoveryCode = generateRecoveryCode();
+    const { recoveryKey, authHash } = await deriveRecoveryKeys(recoveryCode);
+    const previous = (await AccountService.getKeys())?.recovery;
+
+    await AccountService.updateKeys({
+      recovery: await this.createRecovery(accountKey, recoveryKey),
+    });
+
+    try {
+      await AuthService.setRecovery({ recoveryHash: authHash });
+    } catch (error) {
+      if (!previous) {
+        throw new Error('Failed to set up a recovery code. Please try again.');
+      }
+
+      try {
+        await AccountService.updateKeys({ recovery: previous });
+      } catch (rollbackError) {
+        console.error('Failed to restore previous recovery key:', rollbackError);
+        throw new Error(
+          'Failed to set up a new recovery code, and your previous code may no longer work. Generate a new recovery code now.'
+        );
+      }
+      throw new Error(
+        'Failed to set up a new recovery code. Your previous recovery code still works.'
+      );
+    }
+
+    return recoveryCode;
+  }
+
+  /**
+   * Recover an account with its recovery code and set a new master password
+   *
+   * Keys are committed before the auth update: if interrupted, the old login
+   * stays in place and recovery can simply be repeated with the same code
+   */
+  static async recoverAccount(
+    email: string,
+    recoveryCode: string,
+    newPassword: string
+  ): Promise<RecoveredAccount> {
+    const { recoveryKey, authHash } = await deriveRecoveryKeys(recoveryCode);
+
+    const authResponse = await AuthService.recoveryLogin({
+      email,
+      recoveryHash: authHash,
+    });
+
+    const keys = await AccountService.getKeys();
+    if (!keys?.recovery) {
+      throw new Error('Account recovery is not set up for this account');
+    }
+
+    let accountKey: string;
+    try {
+      accountKey = await unwrapKey(
+        keys.recovery.encryptedAccountKey,
+        recoveryKey
+      );
+    } catch (error) {
+      throw new Error('Invalid recovery code');
+    }
+
+    // A password change interrupted on this device may have moved items
+    // to a new account key - finish it so nothing is left unreadable
+    accountKey = await RekeyService.finishRotationForRecovery(
+      authResponse.userId,
+      accountKey
+    );
+
+    const kdfProfile = createKdfProfile();
+    const masterKey = await deriveEncryptionKey(newPassword, kdfProfile);
+
+    await AccountService.updateKeys({
+      kdfProfile,
+      encryptedAccountKey: await wrapKey(accountKey, masterKey, {
+        kdfParamsRef: kdfProfile.id,
+      }),
+      keyCheck: await createKeyCheck(masterKey, kdfProfile.id),
+      recovery: await this.createRecovery(
+        accountKey,
+        recoveryKey,
+        keys.recovery.createdAt
+      ),
+    });
+    await AuthService.resetPassword({
+      newPassword: await deriveLoginHash(masterKey),
+      kdfProfile,
+    });
+    await AuthService.markLoginHashAccount(email);
+
+    return { authResponse, kdfProfile, accountKey };
+  }
+
+  /**
+   * Wrap the account key and recovery key under each other
+   */
+  private static async createRecovery(
+    accountKey: string,
+    recoveryKey: string,
+    createdAt: string = new Date().toISOString()
+  ): Promise<AccountRecovery> {
+    return {
+      encryptedAccountKey: await wrapKey(accountKey, recoveryKey),
+      encryptedRecoveryKey: await wrapKey(recoveryKey, accountKey),
+      createdAt,
+    };
+  }
+}
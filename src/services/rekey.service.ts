@@ -0,0 +1,741 @@
+/**
+ * Rekey Service
+ *
+ * Handles moving vault data from one encryption key to another:
+ * - Re-encrypt every vault (name/description) and every item in it
+ * - Migrate legacy accounts to a random account key (on unlock)
+ * - Re-wrap the account key under an upgraded KDF profile
+ * - Change master password with a full account key rotation
+ *   (the recovery key and sharing private key follow the new account key)
+ * - Encrypt plaintext vault and item names left by older versions
+ * - Move a vault from the account key to its own vault key (before sharing)
+ * - Carry the on-device generator history over to a new account key
+ *
+ * Vaults with their own vault key are untouched by account key rotation -
+ * only the sealed copy of their key depends on the (unchanged) key pair.
+ *
+ * Interrupted runs are resumable: items already encrypted under the
+ * target key are skipped (envelope keyId), and the new account key is
+ * journaled in SecureStore (wrapped, never in plaintext) until it is
+ * committed server-side.
+ *
+ * SECURITY: Items are decrypted and re-encrypted client-side only
+ * Raw keys only pass through here during unlock / password change (wrapping
+ * needs them); re-encryption runs on key manager handles
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { VaultService } from './vault.service';
+import { VaultItemService } from './vault-item.service';
+import { AccountService } from './account.service';
+import { AuthService } from './auth.service';
+import { KeyPairService } from './key-pair.service';
+import { GeneratorHistoryService } from './generator-history.service';
+import {
+  deriveEncryptionKey,
+  deriveLoginHash,
+  createKdfProfile,
+  isKdfProfileOutdated,
+  decodeEncryptedData,
+  generateSymmetricKey,
+  wrapKey,
+  unwrapKey,
+  createKeyCheck,
+  verifyKeyCheck,
+  registerKey,
+  removeKey,
+  getKeyPairPublicKey,
+  EncryptedData,
+  KdfProfile,
+} from '@/crypto';
+import { Vault, VaultItem, AccountRecovery } from '@/types';
+import ENV from '@/config/env';
+
+interface KeyMigrationJournal {
+  userId: string;
+  kdfProfile: KdfProfile; // Target profile (non-secret)
+  encryptedAccountKey: EncryptedData; // New account key wrapped under target profile
+}
+
+// 'auth-pending': the auth update was sent, its outcome is unknown
+type PasswordChangeStage = 'reencrypting' | 'auth-pending' | 'auth-updated';
+
+interface PasswordChangeJournal {
+  userId: string;
+  email: string; // For prelogin when resolving an 'auth-pending' stage
+  stage: PasswordChangeStage;
+  kdfProfile: KdfProfile; // New profile (non-secret)
+  encryptedAccountKey: EncryptedData; // New account key wrapped under new profile
+  keyCheck: EncryptedData; // Verifier for the new master key
+  rotationKey: EncryptedData; // New account key wrapped under old account key
+  recovery?: AccountRecovery; // Recovery key re-wrapped for the new account key
+  encryptedPrivateKey?: EncryptedData; // Sharing private key under new account key
+}
+
+export class RekeyService {
+  /**
+   * Re-encrypt every vault and item from one key to another
+   * Both keys must be loaded in the key manager
+   * Progress is reported per item; vault metadata is handled first
+   * @returns Number of items re-encrypted in this run
+   */
+  static async reencryptAllItems(
+    fromKeyId: string,
+    toKeyId: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<number> {
+    const vaults = await this.getAccountKeyVaults();
+
+    for (const vault of vaults) {
+      // Plaintext legacy metadata is left to encryptPlaintextNames
+      if (
+        vault.encryptedMetadata &&
+        decodeEncryptedData(vault.encryptedMetadata).keyId !== toKeyId
+      ) {
+        await VaultService.updateVaultMetadata(
+          vault.id,
+          await VaultService.decryptMetadata(vault, fromKeyId),
+          toKeyId
+        );
+      }
+    }
+
+    const items = await this.getAllItems();
+
+    let done = 0;
+    let reencrypted = 0;
+
+    for (const item of items) {
+      // Already migrated by a previous (interrupted) run
+      if (decodeEncryptedData(item.encryptedData).keyId !== toKeyId) {
+        const decrypted = await VaultItemService.decryptVaultItem(
+          item,
+          fromKeyId
+        );
+        await VaultItemService.updateVaultItemData(
+          item.vaultId,
+          item.id,
+          item.type,
+          decrypted.name,
+          decrypted.data,
+          toKeyId
+        );
+        reencrypted++;
+      }
+
+      done++;
+      onProgress?.(done, items.length);
+    }
+
+    return reencrypted;
+  }
+
+  /**
+   * Move a legacy account (items under the master key) to a random account key
+   * The KDF profile is upgraded at the same time if it is outdated
+   * @param passwordVerified - Whether the auth server just accepted this password
+   * @returns Profile and account key to use for the rest of the session
+   */
+  static async migrateToAccountKey(
+    userId: string,
+    masterPassword: string,
+    kdfProfile: KdfProfile,
+    masterKey: string,
+    passwordVerified: boolean
+  ): Promise<{ kdfProfile: KdfProfile; accountKey: string }> {
+    let journal = await this.getKeyMigrationJournal(userId);
+    const masterKeyId = await registerKey(masterKey);
+
+    if (!journal) {
+      // Never commit a key hierarchy to an unverified password
+      if (!passwordVerified && !(await this.canDecryptAnyItem(masterKeyId))) {
+        return { kdfProfile, accountKey: masterKey };
+      }
+
+      const targetProfile = isKdfProfileOutdated(kdfProfile)
+        ? createKdfProfile()
+        : kdfProfile;
+      const targetMasterKey =
+        targetProfile === kdfProfile
+          ? masterKey
+          : await deriveEncryptionKey(masterPassword, targetProfile);
+
+      journal = {
+        userId,
+        kdfProfile: targetProfile,
+        encryptedAccountKey: await wrapKey(
+          generateSymmetricKey(),
+          targetMasterKey,
+          { kdfParamsRef: targetProfile.id }
+        ),
+      };
+      await SecureStore.setItemAsync(
+        ENV.STORAGE_KEYS.KEY_MIGRATION,
+        JSON.stringify(journal)
+      );
+    }
+
+    const journalMasterKey =
+      journal.kdfProfile.id === kdfProfile.id
+        ? masterKey
+        : await deriveEncryptionKey(masterPassword, journal.kdfProfile);
+
+    let accountKey: string;
+    try {
+      accountKey = await unwrapKey(journal.encryptedAccountKey, journalMasterKey);
+    } catch (error) {
+      throw new Error('Incorrect master password');
+    }
+
+    await this.reencryptAllItems(masterKeyId, await registerKey(accountKey));
+    removeKey(masterKeyId);
+    await AccountService.updateKeys({
+      kdfProfile: journal.kdfProfile,
+      encryptedAccountKey: journal.encryptedAccountKey,
+      keyCheck: await createKeyCheck(journalMasterKey, journal.kdfProfile.id),
+    });
+    await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.KEY_MIGRATION);
+
+    return { kdfProfile: journal.kdfProfile, accountKey };
+  }
+
+  /**
+   * Re-wrap the account key under a fresh KDF profile (e.g. PBKDF2 -> Argon2id)
+   * Profile, wrapped key and key check are committed in a single request
+   * @returns The new profile
+   */
+  static async upgradeKdfProfile(
+    masterPassword: string,
+    accountKey: string
+  ): Promise<KdfProfile> {
+    const kdfProfile = createKdfProfile();
+    const masterKey = await deriveEncryptionKey(masterPassword, kdfProfile);
+    const encryptedAccountKey = await wrapKey(accountKey, masterKey, {
+      kdfParamsRef: kdfProfile.id,
+    });
+    const keyCheck = await createKeyCheck(masterKey, kdfProfile.id);
+
+    await AccountService.updateKeys({
+      kdfProfile,
+      encryptedAccountKey,
+      keyCheck,
+    });
+
+    return kdfProfile;
+  }
+
+  /**
+   * Change master password and rotate the account key
+   * 
+   * Order matters for safe resumption:
+   * 1. Journal new keys (wrapped) - 2. Re-encrypt every item
+   * 3. Mark auth update pending - 4. Update auth login hash
+   * 5. Commit new profile + wrapped key atomically
+   * 
+   * Interrupted before 3: next unlock with the current password finishes the
+   * key rotation and keeps the current password (see resumeAccountKeyRotation)
+   * Interrupted during 4: prelogin tells which password the server accepts
+   * and the keys are committed for that one (see commitPendingPasswordChange)
+   * Interrupted after 4: the journaled keys are committed before next unlock
+   */
+  static async changeMasterPassword(
+    userId: string,
+    email: string,
+    currentPassword: string,
+    newPassword: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ kdfProfile: KdfProfile; encryptionKeyId: string }> {
+    if (await this.hasPendingPasswordChange(userId)) {
+      throw new Error(
+        'A previous password change is still pending. Lock and unlock the app to finish it.'
+      );
+    }
+
+    const keys = await AccountService.getKeys();
+    if (!keys?.encryptedAccountKey) {
+      throw new Error('Account key is not set up. Unlock the app and try again.');
+    }
+
+    // Verify current password against the key check, then unwrap the account key
+    const credential = await AuthService.getLoginCredential(
+      email,
+      currentPassword
+    );
+    const currentMasterKey =
+      credential.masterKey &&
+      credential.prelogin.kdfProfile?.id === keys.kdfProfile.id
+        ? credential.masterKey
+        : await deriveEncryptionKey(currentPassword, keys.kdfProfile);
+    if (
+      keys.keyCheck &&
+      !(await verifyKeyCheck(keys.keyCheck, currentMasterKey))
+    ) {
+      throw new Error('Current master password is incorrect');
+    }
+
+    let currentAccountKey: string;
+    try {
+      currentAccountKey = await unwrapKey(
+        keys.encryptedAccountKey,
+        currentMasterKey
+      );
+    } catch (error) {
+      throw new Error('Current master password is incorrect');
+    }
+
+    const kdfProfile = createKdfProfile();
+    const newMasterKey = await deriveEncryptionKey(newPassword, kdfProfile);
+    const newAccountKey = generateSymmetricKey();
+    const currentAccountKeyId = await registerKey(currentAccountKey);
+    const newAccountKeyId = await registerKey(newAccountKey);
+
+    const journal: PasswordChangeJournal = {
+      userId,
+      email,
+      stage: 'reencrypting',
+      kdfProfile,
+      encryptedAccountKey: await wrapKey(newAccountKey, newMasterKey, {
+        kdfParamsRef: kdfProfile.id,
+      }),
+      keyCheck: await createKeyCheck(newMasterKey, kdfProfile.id),
+      rotationKey: await wrapKey(newAccountKey, currentAccountKey),
+      recovery:
+        keys.recovery &&
+        (await this.rewrapRecovery(
+          keys.recovery,
+          currentAccountKey,
+          newAccountKey
+        )),
+      encryptedPrivateKey:
+        keys.encryptedPrivateKey &&
+        (await KeyPairService.reencryptPrivateKey(
+          keys.publicKey,
+          keys.encryptedPrivateKey,
+          currentAccountKeyId,
+          newAccountKeyId
+        )),
+    };
+    await this.savePasswordChangeJournal(journal);
+
+    await this.reencryptAllItems(
+      currentAccountKeyId,
+      newAccountKeyId,
+      onProgress
+    );
+    await this.moveGeneratorHistory(userId, currentAccountKeyId, newAccountKeyId);
+
+    // From here the server may hold the new password even if the call fails
+    await this.savePasswordChangeJournal({ ...journal, stage: 'auth-pending' });
+    await AuthService.changePassword({
+      currentPassword: credential.password,
+      newPassword: await deriveLoginHash(newMasterKey),
+      kdfProfile,
+    });
+    await this.savePasswordChangeJournal({ ...journal, stage: 'auth-updated' });
+
+    await AccountService.updateKeys({
+      kdfProfile,
+      encryptedAccountKey: journal.encryptedAccountKey,
+      keyCheck: journal.keyCheck,
+      recovery: journal.recovery,
+      encryptedPrivateKey: journal.encryptedPrivateKey,
+    });
+    await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.PASSWORD_CHANGE);
+    removeKey(currentAccountKeyId);
+
+    return { kdfProfile, encryptionKeyId: newAccountKeyId };
+  }
+
+  /**
+   * Check whether a password change was started but not committed
+   */
+  static async hasPendingPasswordChange(userId: string): Promise<boolean> {
+    return (await this.getPasswordChangeJournal(userId)) !== null;
+  }
+
+  /**
+   * Commit keys of a password change whose auth update already succeeded
+   * Needs no password - the journal holds the new keys wrapped
+   * An update with unknown outcome is resolved with prelogin: if the server
+   * does not derive its login hash from the new profile, the change did not
+   * go through and the rotation is finished under the current password
+   * @throws Error if prelogin fails (the outcome cannot be determined)
+   */
+  static async commitPendingPasswordChange(userId: string): Promise<void> {
+    let journal = await this.getPasswordChangeJournal(userId);
+
+    if (journal?.stage === 'auth-pending') {
+      const prelogin = await AuthService.prelogin(journal.email);
+      journal = {
+        ...journal,
+        stage:
+          prelogin.authScheme === 'login-hash' &&
+          prelogin.kdfProfile?.id === journal.kdfProfile.id
+            ? 'auth-updated'
+            : 'reencrypting',
+      };
+      await this.savePasswordChangeJournal(journal);
+    }
+
+    if (journal?.stage !== 'auth-updated') {
+      return;
+    }
+
+    await AccountService.updateKeys({
+      kdfProfile: journal.kdfProfile,
+      encryptedAccountKey: journal.encryptedAccountKey,
+      keyCheck: journal.keyCheck,
+      recovery: journal.recovery,
+      encryptedPrivateKey: journal.encryptedPrivateKey,
+    });
+    await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.PASSWORD_CHANGE);
+  }
+
+  /**
+   * Finish an account key rotation interrupted before the auth update
+   * The new account key is committed under the current master password
+   * @returns Account key to use for the rest of the session
+   */
+  static async resumeAccountKeyRotation(
+    userId: string,
+    kdfProfile: KdfProfile,
+    masterKey: string,
+    accountKey: string
+  ): Promise<string> {
+    const journal = await this.getPasswordChangeJournal(userId);
+    if (journal?.stage !== 'reencrypting') {
+      return accountKey;
+    }
+
+    let newAccountKey: string;
+    try {
+      newAccountKey = await unwrapKey(journal.rotationKey, accountKey);
+    } catch (error) {
+      // Journal belongs to a rotation that was already committed
+      await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.PASSWORD_CHANGE);
+      return accountKey;
+    }
+
+    const accountKeyId = await registerKey(accountKey);
+    const newAccountKeyId = await registerKey(newAccountKey);
+    await this.reencryptAllItems(accountKeyId, newAccountKeyId);
+    await this.moveGeneratorHistory(userId, accountKeyId, newAccountKeyId);
+    removeKey(accountKeyId);
+    await AccountService.updateKeys({
+      encryptedAccountKey: await wrapKey(newAccountKey, masterKey, {
+        kdfParamsRef: kdfProfile.id,
+      }),
+      recovery: journal.recovery,
+      encryptedPrivateKey: journal.encryptedPrivateKey,
+    });
+    await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.PASSWORD_CHANGE);
+
+    console.warn(
+      'Interrupted password change: account key rotated, master password unchanged'
+    );
+
+    return newAccountKey;
+  }
+
+  /**
+   * Finish any password change left on this device during account recovery
+   * Its new password is discarded, but items may already be under its new
+   * account key - re-encryption is completed so the recovered key reads them
+   * @param accountKey - Account key unwrapped with the recovery code
+   * @returns Account key to wrap under the new master password
+   */
+  static async finishRotationForRecovery(
+    userId: string,
+    accountKey: string
+  ): Promise<string> {
+    const journal = await this.getPasswordChangeJournal(userId);
+    if (!journal) {
+      return accountKey;
+    }
+
+    let newAccountKey: string;
+    try {
+      newAccountKey = await unwrapKey(journal.rotationKey, accountKey);
+    } catch (error) {
+      // Journal belongs to a rotation that was already committed
+      await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.PASSWORD_CHANGE);
+      return accountKey;
+    }
+
+    const accountKeyId = await registerKey(accountKey);
+    const newAccountKeyId = await registerKey(newAccountKey);
+    await this.reencryptAllItems(accountKeyId, newAccountKeyId);
+    await this.moveGeneratorHistory(userId, accountKeyId, newAccountKeyId);
+    removeKey(accountKeyId);
+    if (journal.encryptedPrivateKey) {
+      await AccountService.updateKeys({
+        encryptedPrivateKey: journal.encryptedPrivateKey,
+      });
+    }
+    await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.PASSWORD_CHANGE);
+
+    return newAccountKey;
+  }
+
+  /**
+   * One-time migration of plaintext vault names/descriptions and item names
+   * to encrypted fields (recorded per user on this device once complete)
+   * @returns Number of records migrated
+   */
+  static async encryptPlaintextNames(
+    userId: string,
+    encryptionKeyId: string
+  ): Promise<number> {
+    if (await this.hasEncryptedPlaintextNames(userId)) {
+      return 0;
+    }
+
+    let migrated = 0;
+    // Vaults with their own key are encrypted when they are created or moved
+    const vaults = await this.getAccountKeyVaults();
+
+    for (const vault of vaults) {
+      if (!vault.encryptedMetadata) {
+        await VaultService.updateVaultMetadata(
+          vault.id,
+          { name: vault.name, description: vault.description || undefined },
+          encryptionKeyId
+        );
+        migrated++;
+      }
+
+      const items = await VaultItemService.getVaultItems(vault.id);
+      for (const item of items) {
+        if (!item.encryptedName && item.name) {
+          await VaultItemService.updateVaultItem(vault.id, item.id, {
+            name: '', // Clear plaintext name
+            encryptedName: await VaultItemService.encryptItemName(
+              item.vaultId,
+              item.id,
+              item.type,
+              item.name,
+              encryptionKeyId
+            ),
+          });
+          migrated++;
+        }
+      }
+    }
+
+    await SecureStore.setItemAsync(ENV.STORAGE_KEYS.NAMES_MIGRATED, userId);
+    return migrated;
+  }
+
+  /**
+   * Whether the plaintext name migration finished for this user on this device
+   * (from then on, names without an encrypted field are rejected)
+   */
+  static async hasEncryptedPlaintextNames(userId: string): Promise<boolean> {
+    const migratedUserId = await SecureStore.getItemAsync(
+      ENV.STORAGE_KEYS.NAMES_MIGRATED
+    );
+    return migratedUserId === userId;
+  }
+
+  /**
+   * Whether a vault was given its own key but still has data under the
+   * account key (an interrupted moveVaultToVaultKey)
+   */
+  static isVaultKeyMovePending(vault: Vault, accountKeyId: string): boolean {
+    if (!vault.memberKey) {
+      return false;
+    }
+
+    // Metadata moves last, so it tells whether the move finished
+    return (
+      !vault.encryptedMetadata ||
+      decodeEncryptedData(vault.encryptedMetadata).keyId === accountKeyId
+    );
+  }
+
+  /**
+   * Give a vault its own random key and re-encrypt its data under it
+   * Needed once before a vault created under the account key can be shared
+   * Resumable: the sealed key is stored first, items already under the vault
+   * key are skipped, and metadata is re-encrypted last
+   * @returns Vault with its sealed key and key manager id
+   */
+  static async moveVaultToVaultKey(
+    vault: Vault,
+    accountKeyId: string,
+    keyPairId: string
+  ): Promise<Vault> {
+    let memberKey = vault.memberKey;
+
+    if (!memberKey) {
+      const vaultKey = generateSymmetricKey();
+      memberKey = await VaultService.sealVaultKey(
+        vault.id,
+        vaultKey,
+        getKeyPairPublicKey(keyPairId)
+      );
+      await VaultService.updateVault(vault.id, { memberKey });
+    }
+
+    const movingVault = { ...vault, memberKey };
+    const keyId = await VaultService.getVaultKeyId(
+      movingVault,
+      accountKeyId,
+      keyPairId
+    );
+
+    const items = await VaultItemService.getVaultItems(vault.id);
+    for (const item of items) {
+      if (decodeEncryptedData(item.encryptedData).keyId !== keyId) {
+        const decrypted = await VaultItemService.decryptVaultItem(
+          item,
+          accountKeyId
+        );
+        await VaultItemService.updateVaultItemData(
+          item.vaultId,
+          item.id,
+          item.type,
+          decrypted.name,
+          decrypted.data,
+          keyId
+        );
+      }
+    }
+
+    if (!this.isVaultKeyMovePending(movingVault, accountKeyId)) {
+      const metadata = await VaultService.decryptMetadata(vault, keyId);
+      return { ...movingVault, ...metadata, keyId };
+    }
+
+    const metadata = await VaultService.decryptMetadata(vault, accountKeyId);
+    const updatedVault = await VaultService.updateVaultMetadata(
+      vault.id,
+      metadata,
+      keyId
+    );
+
+    return { ...movingVault, ...updatedVault, memberKey, keyId };
+  }
+
+  /**
+   * Best effort - a history left under the old key only affects this device
+   */
+  private static async moveGeneratorHistory(
+    userId: string,
+    fromKeyId: string,
+    toKeyId: string
+  ): Promise<void> {
+    try {
+      await GeneratorHistoryService.reencryptHistory(userId, fromKeyId, toKeyId);
+    } catch (error) {
+      console.warn('Failed to re-encrypt generator history:', error);
+    }
+  }
+
+  /**
+   * Re-wrap recovery data for a rotated account key (no recovery code needed)
+   */
+  private static async rewrapRecovery(
+    recovery: AccountRecovery,
+    currentAccountKey: string,
+    newAccountKey: string
+  ): Promise<AccountRecovery> {
+    const recoveryKey = await unwrapKey(
+      recovery.encryptedRecoveryKey,
+      currentAccountKey
+    );
+
+    return {
+      encryptedAccountKey: await wrapKey(newAccountKey, recoveryKey),
+      encryptedRecoveryKey: await wrapKey(recoveryKey, newAccountKey),
+      createdAt: recovery.createdAt,
+    };
+  }
+
+  /**
+   * List vaults still encrypted under the account key
+   */
+  private static async getAccountKeyVaults(): Promise<Vault[]> {
+    const vaults = await VaultService.getVaults();
+    return vaults.filter((vault) => !vault.memberKey);
+  }
+
+  /**
+   * List every item in vaults encrypted under the account key
+   */
+  private static async getAllItems(): Promise<VaultItem[]> {
+    const vaults = await this.getAccountKeyVaults();
+    const items = await Promise.all(
+      vaults.map((vault) => VaultItemService.getVaultItems(vault.id))
+    );
+    return items.flat();
+  }
+
+  /**
+   * Verify a key against stored data
+   * @returns false if there is nothing to verify against
+   * @throws Error if an item exists but does not decrypt
+   */
+  private static async canDecryptAnyItem(keyId: string): Promise<boolean> {
+    const [item] = await this.getAllItems();
+    if (!item) {
+      return false;
+    }
+
+    try {
+      await VaultItemService.decryptVaultItem(item, keyId);
+      return true;
+    } catch (error) {
+      throw new Error('Incorrect master password');
+    }
+  }
+
+  /**
+   * Read pending key migration for this user (ignores other accounts)
+   */
+  private static async getKeyMigrationJournal(
+    userId: string
+  ): Promise<KeyMigrationJournal | null> {
+    const raw = await SecureStore.getItemAsync(ENV.STORAGE_KEYS.KEY_MIGRATION);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const journal = JSON.parse(raw) as KeyMigrationJournal;
+      return journal.userId === userId ? journal : null;
+    } catch (error) {
+      console.warn('Discarding unreadable key migration journal:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Read pending password change for this user (ignores other accounts)
+   */
+  private static async getPasswordChangeJournal(
+    userId: string
+  ): Promise<PasswordChangeJournal | null> {
+    const raw = await SecureStore.getItemAsync(ENV.STORAGE_KEYS.PASSWORD_CHANGE);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const journal = JSON.parse(raw) as PasswordChangeJournal;
+      return journal.userId === userId ? journal : null;
+    } catch (error) {
+      console.warn('Discarding unreadable password change journal:', error);
+      return null;
+    }
+  }
+
+  private static async savePasswordChangeJournal(
+    journal: PasswordChangeJournal
+  ): Promise<void> {
+    await SecureStore.setItemAsync(
+      ENV.STORAGE_KEYS.PASSWORD_CHANGE,
+      JSON.stringify(journal)
+    );
+  }
+}
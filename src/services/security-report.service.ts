@@ -0,0 +1,75 @@
+/**
+ * Security Report Service
+ *
+ * Builds reports over the user's vault items on the device:
+ * - Weak passwords: password items whose strength estimate is below "Strong"
+ *
+ * SECURITY: Items are decrypted in memory only; the report keeps names and
+ * strength feedback, never the passwords themselves.
+ */
+
+import { VaultItemService } from './vault-item.service';
+import { Vault, VaultItemType, PasswordItemData } from '@/types';
+import {
+  getPasswordStrength,
+  MIN_ITEM_PASSWORD_SCORE,
+  PasswordStrength,
+} from '@/utils/password-strength';
+
+export interface WeakPasswordEntry {
+  vaultId: string;
+  vaultName: string;
+  itemId: string;
+  itemName: string;
+  strength: PasswordStrength;
+}
+
+export class SecurityReportService {
+  /**
+   * Find password items with a weak password, weakest first
+   * Vaults without an open key are skipped
+   * @param userInputs - Personal details of the user (email, name)
+   * @throws If items cannot be fetched or decrypted
+   */
+  static async getWeakPasswords(
+    vaults: Vault[],
+    userInputs: (string | undefined | null)[],
+    requireEncryptedNames: boolean = false
+  ): Promise<WeakPasswordEntry[]> {
+    const entries: WeakPasswordEntry[] = [];
+
+    for (const vault of vaults) {
+      if (!vault.keyId) continue;
+
+      const items = await VaultItemService.getVaultItems(vault.id);
+      for (const item of items) {
+        if (item.type !== VaultItemType.PASSWORD) continue;
+
+        const decrypted = await VaultItemService.decryptVaultItem(
+          item,
+          vault.keyId,
+          requireEncryptedNames
+        );
+        const data = decrypted.data as PasswordItemData;
+        if (!data.password) continue; // Authenticator-only items
+
+        const strength = getPasswordStrength(data.password, [
+          ...userInputs,
+          data.username,
+          decrypted.name,
+        ]);
+        if (strength.score < MIN_ITEM_PASSWORD_SCORE) {
+          entries.push({
+            vaultId: vault.id,
+            vaultName: vault.name,
+            itemId: item.id,
+            itemName: decrypted.name,
+            strength,
+          });
+        }
+      }
+    }
+
+    return entries.sort((a, b) => a.strength.guesses - b.strength.guesses);
+  }
+}
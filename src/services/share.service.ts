@@ -0,0 +1,144 @@
+/**
+ * Share Service
+ *
+ * Handles one-time share links for single items:
+ * - Create a link (payload encrypted under a fresh key, expiry + view limit)
+ * - Open a link (fetch ciphertext, decrypt with the key from the fragment)
+ * - Revoke a link before it expires
+ *
+ * SECURITY: The share key only exists in the link fragment - the server
+ * stores ciphertext, expiry and view count, and deletes the share once
+ * it expires or runs out of views
+ */
+
+import * as Linking from 'expo-linking';
+import { apiClient, handleApiError } from './api';
+import { encryptSharePayload, decryptSharePayload } from '@/crypto';
+import {
+  DecryptedVaultItem,
+  ItemShare,
+  ItemShareOptions,
+  CreateItemShareRequest,
+  SharedItemPayload,
+  SharedItemResponse,
+} from '@/types';
+
+const SHARE_PATH = 'share';
+
+export interface CreatedItemShare {
+  share: ItemShare;
+  url: string; // Full link including the key fragment
+}
+
+export interface OpenedItemShare {
+  payload: SharedItemPayload;
+  expiresAt: string;
+  remainingViews: number;
+}
+
+export class ShareService {
+  /**
+   * Create a one-time share link for a decrypted item
+   * @param sharedBy - Sender email shown to the recipient
+   */
+  static async createItemShare(
+    item: DecryptedVaultItem,
+    sharedBy: string,
+    options: ItemShareOptions
+  ): Promise<CreatedItemShare> {
+    try {
+      const payload: SharedItemPayload = {
+        type: item.type,
+        name: item.name,
+        data: item.data,
+        sharedBy,
+      };
+      const { encryptedPayload, shareKey } = await encryptSharePayload(payload);
+
+      const request: CreateItemShareRequest = {
+        encryptedPayload,
+        expiresAt: new Date(
+          Date.now() + options.expiresInHours * 60 * 60 * 1000
+        ).toISOString(),
+        maxViews: options.maxViews,
+      };
+
+      const response = await apiClient.post<ItemShare>('/api/shares', request);
+
+      return {
+        share: response.data,
+        url: this.buildShareUrl(response.data.id, shareKey),
+      };
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Open a share link (uses up one view)
+   */
+  static async openItemShare(url: string): Promise<OpenedItemShare> {
+    const link = this.parseShareUrl(url);
+    if (!link) {
+      throw new Error('Share link is incomplete or damaged');
+    }
+
+    let response: SharedItemResponse;
+    try {
+      response = (
+        await apiClient.get<SharedItemResponse>(`/api/shares/${link.shareId}`)
+      ).data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      if (apiError.status === 404 || apiError.status === 410) {
+        throw new Error('This link has expired or was already viewed');
+      }
+      throw new Error(apiError.message);
+    }
+
+    return {
+      payload: await decryptSharePayload<SharedItemPayload>(
+        response.encryptedPayload,
+        link.shareKey
+      ),
+      expiresAt: response.expiresAt,
+      remainingViews: response.remainingViews,
+    };
+  }
+
+  /**
+   * Revoke a share link
+   */
+  static async revokeItemShare(shareId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/shares/${shareId}`);
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Split a share link into its id and key
+   * @returns null if the link is not a share link or has no key
+   */
+  static parseShareUrl(
+    url: string
+  ): { shareId: string; shareKey: string } | null {
+    const [location, shareKey] = url.split('#');
+    const match = location.match(
+      new RegExp(`(?:^|/)${SHARE_PATH}/([A-Za-z0-9-]+)/?(?:\\?.*)?$`)
+    );
+
+    if (!match || !shareKey) {
+      return null;
+    }
+
+    return { shareId: match[1], shareKey };
+  }
+
+  private static buildShareUrl(shareId: string, shareKey: string): string {
+    return `${Linking.createURL(`${SHARE_PATH}/${shareId}`)}#${shareKey}`;
+  }
+}
@@ -9,8 +9,12 @@
  * - Get item by ID
  * 
  * SECURITY: All sensitive data is encrypted client-side before sending to server
+ * - Item names are encrypted too (separately, so lists decrypt only names)
+ * - Item id, vault id and type are bound into the GCM additional authenticated
+ *   data, so ciphertext swapped between items or vaults fails to decrypt
  */
 
+import uuid from 'react-native-uuid';
 import { apiClient, handleApiError } from './api';
 import {
   VaultItem,
@@ -21,7 +25,29 @@ import {
   DecryptedVaultItem,
   PaginatedResponse,
 } from '@/types';
-import { encryptObject, decryptObject, EncryptedData } from '@/crypto';
+import {
+  encryptWithKey,
+  decryptWithKey,
+  encryptObjectWithKey,
+  decryptObjectWithKey,
+  EncryptedData,
+} from '@/crypto';
+
+const ITEM_AAD_VERSION = 1;
+
+type ItemField = 'vault-item' | 'vault-item-name';
+
+/**
+ * Additional authenticated data identifying an item field
+ */
+function getItemAad(
+  field: ItemField,
+  vaultId: string,
+  itemId: string,
+  type: VaultItemType
+): string {
+  return JSON.stringify([field, ITEM_AAD_VERSION, vaultId, itemId, type]);
+}
 
 export class VaultItemService {
   /**
@@ -65,17 +91,32 @@ export class VaultItemService {
     type: VaultItemType,
     name: string,
     data: VaultItemData,
-    encryptionKey: string,
+    encryptionKeyId: string,
     favorite: boolean = false
   ): Promise<VaultItem> {
     try {
-      // Encrypt sensitive data client-side
-      const encryptedData = await encryptObject(data, encryptionKey);
+      // Id is generated client-side so it can be bound into the ciphertext
+      const id = uuid.v4() as string;
 
-      const request: CreateVaultItemRequest = {
+      // Encrypt name and sensitive data client-side
+      const encryptedName = await this.encryptItemName(
         vaultId,
+        id,
         type,
         name,
+        encryptionKeyId
+      );
+      const encryptedData = await encryptObjectWithKey(
+        encryptionKeyId,
+        data,
+        { additionalData: getItemAad('vault-item', vaultId, id, type) }
+      );
+
+      const request: CreateVaultItemRequest = {
+        id,
+        vaultId,
+        type,
+        encryptedName,
         encryptedData,
         favorite,
       };
@@ -84,7 +125,20 @@ export class VaultItemService {
         `/api/vaults/${vaultId}/items`,
         request
       );
-      return response.data;
+
+      // Server assigned its own id - re-bind the data to it
+      if (response.data.id !== id) {
+        return await this.updateVaultItemData(
+          vaultId,
+          response.data.id,
+          type,
+          name,
+          data,
+          encryptionKeyId
+        );
+      }
+
+      return { ...response.data, name };
     } catch (error) {
       const apiError = handleApiError(error);
       throw new Error(apiError.message);
@@ -117,22 +171,36 @@ export class VaultItemService {
   static async updateVaultItemData(
     vaultId: string,
     itemId: string,
+    type: VaultItemType,
     name: string,
     data: VaultItemData,
-    encryptionKey: string,
+    encryptionKeyId: string,
     favorite?: boolean
   ): Promise<VaultItem> {
     try {
-      // Encrypt new data client-side
-      const encryptedData = await encryptObject(data, encryptionKey);
+      // Encrypt new data client-side (items without AAD get bound here)
+      const encryptedName = await this.encryptItemName(
+        vaultId,
+        itemId,
+        type,
+        name,
+        encryptionKeyId
+      );
+      const encryptedData = await encryptObjectWithKey(
+        encryptionKeyId,
+        data,
+        { additionalData: getItemAad('vault-item', vaultId, itemId, type) }
+      );
 
       const request: UpdateVaultItemRequest = {
-        name,
+        name: '', // Clear any legacy plaintext name
+        encryptedName,
         encryptedData,
         favorite,
       };
 
-      return await this.updateVaultItem(vaultId, itemId, request);
+      const updatedItem = await this.updateVaultItem(vaultId, itemId, request);
+      return { ...updatedItem, name };
     } catch (error) {
       const apiError = handleApiError(error);
       throw new Error(apiError.message);
@@ -154,21 +222,106 @@ export class VaultItemService {
     }
   }
 
+  /**
+   * Encrypt an item name for storage
+   */
+  static async encryptItemName(
+    vaultId: string,
+    itemId: string,
+    type: VaultItemType,
+    name: string,
+    encryptionKeyId: string
+  ): Promise<EncryptedData> {
+    return encryptWithKey(encryptionKeyId, name, {
+      additionalData: getItemAad('vault-item-name', vaultId, itemId, type),
+    });
+  }
+
+  /**
+   * Decrypt an item name (legacy items: plaintext name from server)
+   * @param requireEncryptedName - Reject plaintext names (migration finished)
+   */
+  static async decryptItemName(
+    item: VaultItem,
+    encryptionKeyId: string,
+    requireEncryptedName: boolean = false
+  ): Promise<string> {
+    if (!item.encryptedName) {
+      if (requireEncryptedName) {
+        throw new Error('Item name is not encrypted');
+      }
+      return item.name;
+    }
+
+    return decryptWithKey(encryptionKeyId, item.encryptedName, {
+      additionalData: getItemAad(
+        'vault-item-name',
+        item.vaultId,
+        item.id,
+        item.type
+      ),
+    });
+  }
+
+  /**
+   * Decrypt names of a list of items for display
+   * Items whose name fails to decrypt get a placeholder instead of failing the list
+   */
+  static async decryptItemNames(
+    items: VaultItem[],
+    encryptionKeyId: string,
+    requireEncryptedNames: boolean = false
+  ): Promise<VaultItem[]> {
+    return Promise.all(
+      items.map(async (item) => {
+        try {
+          return {
+            ...item,
+            name: await this.decryptItemName(
+              item,
+              encryptionKeyId,
+              requireEncryptedNames
+            ),
+          };
+        } catch (error) {
+          console.error('Failed to decrypt item name:', error);
+          return { ...item, name: 'Unreadable item' };
+        }
+      })
+    );
+  }
+
   /**
    * Decrypt vault item (client-side only)
+   * Fails if the data was encrypted for another item, vault or type
+   * (items encrypted before AAD binding still decrypt)
    */
   static async decryptVaultItem(
     item: VaultItem,
-    encryptionKey: string
+    encryptionKeyId: string,
+    requireEncryptedName: boolean = false
   ): Promise<DecryptedVaultItem> {
     try {
-      const decryptedData = await decryptObject<VaultItemData>(
+      const decryptedData = await decryptObjectWithKey<VaultItemData>(
+        encryptionKeyId,
         item.encryptedData,
-        encryptionKey
+        {
+          additionalData: getItemAad(
+            'vault-item',
+            item.vaultId,
+            item.id,
+            item.type
+          ),
+        }
       );
 
       return {
         ...item,
+        name: await this.decryptItemName(
+          item,
+          encryptionKeyId,
+          requireEncryptedName
+        ),
         data: decryptedData,
       };
     } catch (error) {
@@ -7,15 +7,58 @@
  * - Update vault
  * - Delete vault
  * - Get vault by ID
+ * - Members: list, invite, change role, remove
+ *
+ * SECURITY: Vault name and description are encrypted client-side
+ * (bound to the vault id via GCM additional authenticated data)
+ * Each new vault has its own random key, sealed to every member's public
+ * key - sharing never exposes anyone's account key or master password.
+ * Vaults created before sharing stay under the account key until shared.
+ * Removing a member revokes server access but does not rotate the vault key.
  */
 
+import uuid from 'react-native-uuid';
 import { apiClient, handleApiError } from './api';
 import {
   Vault,
+  VaultMetadata,
+  VaultMember,
+  VaultRole,
+  UserPublicKey,
   CreateVaultRequest,
   UpdateVaultRequest,
+  AddVaultMemberRequest,
+  UpdateVaultMemberRequest,
   PaginatedResponse,
 } from '@/types';
+import {
+  encryptObjectWithKey,
+  decryptObjectWithKey,
+  generateSymmetricKey,
+  sealKey,
+  resealKey,
+  openSealedKey,
+  registerKey,
+  getKeyPairPublicKey,
+  EncryptedData,
+  SealedKey,
+} from '@/crypto';
+
+const VAULT_AAD_VERSION = 1;
+
+/**
+ * Additional authenticated data identifying a vault
+ */
+function getVaultAad(vaultId: string): string {
+  return JSON.stringify(['vault', VAULT_AAD_VERSION, vaultId]);
+}
+
+/**
+ * Additional authenticated data binding a sealed key to its vault
+ */
+function getVaultKeyAad(vaultId: string): string {
+  return JSON.stringify(['vault-key', VAULT_AAD_VERSION, vaultId]);
+}
 
 export class VaultService {
   /**
@@ -47,12 +90,63 @@ export class VaultService {
   }
 
   /**
-   * Create new vault
+   * Create new vault (encrypts name and description client-side)
+   * Gets its own vault key sealed for the creator, so it can be shared later
+   * @param keyPairId - Creator's key pair (null: vault stays under the account key)
    */
-  static async createVault(request: CreateVaultRequest): Promise<Vault> {
+  static async createVault(
+    metadata: VaultMetadata,
+    encryptionKeyId: string,
+    keyPairId: string | null,
+    icon?: string
+  ): Promise<Vault> {
     try {
+      // Id is generated client-side so it can be bound into the ciphertext
+      const id = uuid.v4() as string;
+
+      const vaultKey = keyPairId ? generateSymmetricKey() : null;
+      const keyId = vaultKey ? await registerKey(vaultKey) : encryptionKeyId;
+      const sealForCreator = (vaultId: string) =>
+        vaultKey
+          ? this.sealVaultKey(vaultId, vaultKey, getKeyPairPublicKey(keyPairId!))
+          : Promise.resolve(undefined);
+
+      const request: CreateVaultRequest = {
+        id,
+        encryptedMetadata: await this.encryptMetadata(id, metadata, keyId),
+        memberKey: await sealForCreator(id),
+        icon,
+      };
+
       const response = await apiClient.post<Vault>('/api/vaults', request);
-      return response.data;
+
+      // Server assigned its own id - re-bind the metadata and key to it
+      if (response.data.id !== id) {
+        const memberKey = await sealForCreator(response.data.id);
+        const updatedVault = await this.updateVault(response.data.id, {
+          encryptedMetadata: await this.encryptMetadata(
+            response.data.id,
+            metadata,
+            keyId
+          ),
+          memberKey,
+        });
+        return {
+          ...updatedVault,
+          ...metadata,
+          role: 'owner',
+          memberKey,
+          keyId,
+        };
+      }
+
+      return {
+        ...response.data,
+        ...metadata,
+        role: 'owner',
+        memberKey: request.memberKey,
+        keyId,
+      };
     } catch (error) {
       const apiError = handleApiError(error);
       throw new Error(apiError.message);
@@ -78,6 +172,254 @@ export class VaultService {
     }
   }
 
+  /**
+   * Update vault name and description (encrypted client-side)
+   */
+  static async updateVaultMetadata(
+    vaultId: string,
+    metadata: VaultMetadata,
+    encryptionKeyId: string,
+    icon?: string
+  ): Promise<Vault> {
+    const updatedVault = await this.updateVault(vaultId, {
+      name: '', // Clear any legacy plaintext
+      description: '',
+      encryptedMetadata: await this.encryptMetadata(
+        vaultId,
+        metadata,
+        encryptionKeyId
+      ),
+      icon,
+    });
+
+    return { ...updatedVault, ...metadata };
+  }
+
+  /**
+   * Load the key protecting a vault's data
+   * @param encryptionKeyId - Account key (vaults without their own key)
+   * @param keyPairId - Caller's key pair (opens the sealed vault key)
+   * @returns Key manager id to encrypt/decrypt the vault's metadata and items
+   */
+  static async getVaultKeyId(
+    vault: Vault,
+    encryptionKeyId: string,
+    keyPairId?: string | null
+  ): Promise<string> {
+    if (!vault.memberKey) {
+      return encryptionKeyId;
+    }
+
+    if (!keyPairId) {
+      throw new Error('Sharing key pair is not loaded - unlock the app again');
+    }
+
+    return openSealedKey(keyPairId, vault.memberKey, {
+      additionalData: getVaultKeyAad(vault.id),
+    });
+  }
+
+  /**
+   * Decrypt name and description of a vault with a given key
+   * Legacy vaults keep the plaintext values sent by the server
+   */
+  static async decryptMetadata(
+    vault: Vault,
+    keyId: string,
+    requireEncryptedMetadata: boolean = false
+  ): Promise<VaultMetadata> {
+    if (!vault.encryptedMetadata) {
+      if (requireEncryptedMetadata) {
+        throw new Error('Vault name is not encrypted');
+      }
+      return { name: vault.name, description: vault.description || undefined };
+    }
+
+    return decryptObjectWithKey<VaultMetadata>(
+      keyId,
+      vault.encryptedMetadata,
+      { additionalData: getVaultAad(vault.id) }
+    );
+  }
+
+  /**
+   * Open a vault: load its key and decrypt name and description
+   */
+  static async decryptVault(
+    vault: Vault,
+    encryptionKeyId: string,
+    keyPairId?: string | null,
+    requireEncryptedMetadata: boolean = false
+  ): Promise<Vault> {
+    const keyId = await this.getVaultKeyId(vault, encryptionKeyId, keyPairId);
+    const metadata = await this.decryptMetadata(
+      vault,
+      keyId,
+      requireEncryptedMetadata
+    );
+
+    return {
+      ...vault,
+      name: metadata.name,
+      description: metadata.description,
+      keyId,
+    };
+  }
+
+  /**
+   * Decrypt a list of vaults for display
+   * Vaults that fail to decrypt get a placeholder instead of failing the list
+   */
+  static async decryptVaults(
+    vaults: Vault[],
+    encryptionKeyId: string,
+    keyPairId?: string | null,
+    requireEncryptedMetadata: boolean = false
+  ): Promise<Vault[]> {
+    return Promise.all(
+      vaults.map(async (vault) => {
+        try {
+          return await this.decryptVault(
+            vault,
+            encryptionKeyId,
+            keyPairId,
+            requireEncryptedMetadata
+          );
+        } catch (error) {
+          console.error('Failed to decrypt vault:', error);
+          return {
+            ...vault,
+            name: 'Unreadable vault',
+            description: undefined,
+            keyId: undefined,
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * Seal a vault key for the holder of a public key
+   */
+  static async sealVaultKey(
+    vaultId: string,
+    vaultKey: string,
+    publicKey: string
+  ): Promise<SealedKey> {
+    return sealKey(vaultKey, publicKey, {
+      additionalData: getVaultKeyAad(vaultId),
+    });
+  }
+
+  /**
+   * Encrypt vault name and description for storage
+   */
+  static async encryptMetadata(
+    vaultId: string,
+    metadata: VaultMetadata,
+    encryptionKeyId: string
+  ): Promise<EncryptedData> {
+    return encryptObjectWithKey(encryptionKeyId, metadata, {
+      additionalData: getVaultAad(vaultId),
+    });
+  }
+
+  /**
+   * Seal the key of a vault the caller can open for another public key
+   * The vault must already have its own key (see RekeyService.moveVaultToVaultKey)
+   */
+  static async resealVaultKey(
+    vault: Vault,
+    publicKey: string,
+    keyPairId: string
+  ): Promise<SealedKey> {
+    if (!vault.memberKey) {
+      throw new Error('Vault has no vault key to share');
+    }
+
+    return resealKey(keyPairId, vault.memberKey, publicKey, {
+      additionalData: getVaultKeyAad(vault.id),
+    });
+  }
+
+  /**
+   * List members of a vault
+   */
+  static async getVaultMembers(vaultId: string): Promise<VaultMember[]> {
+    try {
+      const response = await apiClient.get<VaultMember[]>(
+        `/api/vaults/${vaultId}/members`
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Add a member, sealing the vault key for their public key
+   */
+  static async addVaultMember(
+    vault: Vault,
+    invitee: UserPublicKey,
+    role: VaultRole,
+    keyPairId: string
+  ): Promise<VaultMember> {
+    const request: AddVaultMemberRequest = {
+      userId: invitee.userId,
+      role,
+      memberKey: await this.resealVaultKey(vault, invitee.publicKey, keyPairId),
+    };
+
+    try {
+      const response = await apiClient.post<VaultMember>(
+        `/api/vaults/${vault.id}/members`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Change a member's role
+   */
+  static async updateVaultMemberRole(
+    vaultId: string,
+    userId: string,
+    role: VaultRole
+  ): Promise<VaultMember> {
+    try {
+      const request: UpdateVaultMemberRequest = { role };
+      const response = await apiClient.put<VaultMember>(
+        `/api/vaults/${vaultId}/members/${userId}`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
+  /**
+   * Remove a member from a vault
+   */
+  static async removeVaultMember(
+    vaultId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      await apiClient.delete(`/api/vaults/${vaultId}/members/${userId}`);
+    } catch (error) {
+      const apiError = handleApiError(error);
+      throw new Error(apiError.message);
+    }
+  }
+
   /**
    * Delete vault (soft delete)
    */
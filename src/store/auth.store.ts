@@ -4,8 +4,10 @@
  * Manages authentication state:
  * - User info
  * - JWT tokens
- * - Encryption key (IN MEMORY ONLY - never persisted)
+ * - Encryption key id = account key loaded in the key manager (IN MEMORY ONLY)
+ * - Key pair id = sharing key pair loaded in the key manager (IN MEMORY ONLY)
  * - Login/Logout/Register actions
+ * - Recovery code setup and account recovery
  * 
  * SECURITY CRITICAL:
  * - Encryption key is ONLY stored in this store (memory)
@@ -15,18 +17,217 @@
 
 import { create } from 'zustand';
 import * as SecureStore from 'expo-secure-store';
-import { AuthService } from '@/services/auth.service';
-import { deriveEncryptionKey } from '@/crypto';
+import { AuthService, LoginCredential } from '@/services/auth.service';
+import { AccountService } from '@/services/account.service';
+import { RekeyService } from '@/services/rekey.service';
+import { RecoveryService } from '@/services/recovery.service';
+import { KeyPairService } from '@/services/key-pair.service';
+import {
+  deriveEncryptionKey,
+  deriveLoginHash,
+  createKdfProfile,
+  createLegacyKdfProfile,
+  isKdfProfileOutdated,
+  generateSymmetricKey,
+  wrapKey,
+  unwrapKey,
+  createKeyCheck,
+  verifyKeyCheck,
+  registerKey,
+  clearKeys,
+  KdfProfile,
+} from '@/crypto';
 import { User, LoginRequest, RegisterRequest } from '@/types';
 import { saveTokens, clearTokens } from '@/services/api';
 import ENV from '@/config/env';
 
+/**
+ * Derive the master key and unwrap the account key
+ * Migrates legacy accounts and outdated KDF profiles along the way
+ * @param passwordVerified - Whether the auth server just accepted this password
+ * @param credential - Login credential, reused to skip a second derivation
+ */
+async function unwrapAccountKey(
+  userId: string,
+  masterPassword: string,
+  passwordVerified: boolean,
+  credential?: LoginCredential
+): Promise<{ kdfProfile: KdfProfile; accountKey: string }> {
+  // Finish a password change whose auth update went through (or may have)
+  await RekeyService.commitPendingPasswordChange(userId);
+
+  // KDF profile fetched before deriving (accounts without one use legacy parameters)
+  const keys = await AccountService.getKeys();
+  const kdfProfile = keys?.kdfProfile ?? createLegacyKdfProfile(userId);
+  const masterKey =
+    credential?.masterKey &&
+    credential.prelogin.kdfProfile?.id === kdfProfile.id
+      ? credential.masterKey
+      : await deriveEncryptionKey(masterPassword, kdfProfile);
+
+  // Reject a wrong password before touching any vault data
+  if (keys?.keyCheck && !(await verifyKeyCheck(keys.keyCheck, masterKey))) {
+    throw new Error('Incorrect master password');
+  }
+
+  // Accounts created before the key hierarchy encrypt items with the master key
+  if (!keys?.encryptedAccountKey) {
+    return RekeyService.migrateToAccountKey(
+      userId,
+      masterPassword,
+      kdfProfile,
+      masterKey,
+      passwordVerified
+    );
+  }
+
+  let accountKey: string;
+  try {
+    accountKey = await unwrapKey(keys.encryptedAccountKey, masterKey);
+  } catch (error) {
+    throw new Error('Incorrect master password');
+  }
+
+  // Accounts set up before key checks get one now that the password is proven
+  if (!keys.keyCheck) {
+    await AccountService.updateKeys({
+      keyCheck: await createKeyCheck(masterKey, kdfProfile.id),
+    });
+  }
+
+  // Finish an account key rotation interrupted before the auth update
+  accountKey = await RekeyService.resumeAccountKeyRotation(
+    userId,
+    kdfProfile,
+    masterKey,
+    accountKey
+  );
+
+  // Upgrade outdated KDF profile (e.g. PBKDF2 -> Argon2id) by re-wrapping
+  if (isKdfProfileOutdated(kdfProfile)) {
+    return {
+      kdfProfile: await RekeyService.upgradeKdfProfile(
+        masterPassword,
+        accountKey
+      ),
+      accountKey,
+    };
+  }
+
+  return { kdfProfile, accountKey };
+}
+
+/**
+ * Unwrap the account key and load it into the key manager
+ * @returns Key id of the account key (the raw key never leaves this module)
+ */
+async function unlockAccountKey(
+  userId: string,
+  masterPassword: string,
+  passwordVerified: boolean,
+  credential?: LoginCredential
+): Promise<{ kdfProfile: KdfProfile; encryptionKeyId: string }> {
+  const { kdfProfile, accountKey } = await unwrapAccountKey(
+    userId,
+    masterPassword,
+    passwordVerified,
+    credential
+  );
+
+  return { kdfProfile, encryptionKeyId: await registerKey(accountKey) };
+}
+
+/**
+ * Point the auth server at a login hash derived with the account's KDF profile
+ * Migrates accounts still authenticating with the raw master password and
+ * catches up after KDF upgrades. Best effort - retried on every unlock.
+ * @param credential - Credential just used to log in (prelogin is fetched otherwise)
+ */
+async function syncLoginHash(
+  email: string,
+  masterPassword: string,
+  kdfProfile: KdfProfile,
+  credential?: LoginCredential
+): Promise<void> {
+  try {
+    const { prelogin } = credential ?? {
+      prelogin: await AuthService.prelogin(email),
+    };
+    if (
+      prelogin.authScheme === 'login-hash' &&
+      prelogin.kdfProfile?.id === kdfProfile.id
+    ) {
+      return;
+    }
+
+    const { password: currentPassword } =
+      credential ?? (await AuthService.getLoginCredential(email, masterPassword));
+    const masterKey = await deriveEncryptionKey(masterPassword, kdfProfile);
+
+    await AuthService.changePassword({
+      currentPassword,
+      newPassword: await deriveLoginHash(masterKey),
+      kdfProfile,
+    });
+    await AuthService.markLoginHashAccount(email);
+  } catch (error) {
+    console.warn('Failed to update login hash:', error);
+  }
+}
+
+/**
+ * Encrypt names older versions stored in plaintext (best effort, retried on unlock)
+ * @returns Whether the migration has finished for this user
+ */
+async function encryptPlaintextNames(
+  userId: string,
+  encryptionKeyId: string
+): Promise<boolean> {
+  try {
+    await RekeyService.encryptPlaintextNames(userId, encryptionKeyId);
+    return true;
+  } catch (error) {
+    console.warn('Failed to encrypt plaintext names:', error);
+    return false;
+  }
+}
+
+/**
+ * Load the sharing key pair (created for older accounts on first unlock)
+ * Best effort - sharing is unavailable this session if it fails
+ */
+async function loadKeyPair(encryptionKeyId: string): Promise<string | null> {
+  try {
+    return await KeyPairService.loadKeyPair(encryptionKeyId);
+  } catch (error) {
+    console.warn('Failed to load key pair:', error);
+    return null;
+  }
+}
+
+/**
+ * Set up a recovery code right after registration (best effort - it can be
+ * generated later from settings)
+ */
+async function setupInitialRecovery(accountKey: string): Promise<string | null> {
+  try {
+    return await RecoveryService.setupRecovery(accountKey);
+  } catch (error) {
+    console.warn('Failed to set up recovery code:', error);
+    return null;
+  }
+}
+
 interface AuthStore {
   // State
   user: User | null;
   accessToken: string | null;
   refreshToken: string | null;
-  encryptionKey: string | null; // Base64-encoded key (MEMORY ONLY)
+  encryptionKeyId: string | null; // Key manager id of the account key (MEMORY ONLY)
+  keyPairId: string | null; // Key manager id of the sharing key pair (MEMORY ONLY)
+  kdfProfile: KdfProfile | null; // Non-secret KDF parameters
+  namesMigrated: boolean; // Plaintext vault/item names are rejected once true
+  pendingRecoveryCode: string | null; // New recovery code to show once (MEMORY ONLY)
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -44,6 +245,18 @@ interface AuthStore {
   clearError: () => void;
   lockApp: () => void; // Clear encryption key but keep session
   unlockApp: (masterPassword: string) => Promise<void>;
+  changeMasterPassword: (
+    currentPassword: string,
+    newPassword: string,
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<void>;
+  createRecoveryCode: (masterPassword: string) => Promise<void>;
+  dismissRecoveryCode: () => void;
+  recoverAccount: (
+    email: string,
+    recoveryCode: string,
+    newPassword: string
+  ) => Promise<void>;
 }
 
 export const useAuthStore = create<AuthStore>((set, get) => ({
@@ -51,7 +264,11 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
   user: null,
   accessToken: null,
   refreshToken: null,
-  encryptionKey: null,
+  encryptionKeyId: null,
+  keyPairId: null,
+  kdfProfile: null,
+  namesMigrated: false,
+  pendingRecoveryCode: null,
   isAuthenticated: false,
   isLoading: false,
   error: null,
@@ -61,14 +278,28 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      const authResponse = await AuthService.login({ email, password });
+      // Authenticate with the login hash - the master password never leaves the device
+      const credential = await AuthService.getLoginCredential(email, password);
+      const authResponse = await AuthService.login({
+        email,
+        password: credential.password,
+      });
 
-      // Derive encryption key from master password
-      const encryptionKey = await deriveEncryptionKey(
+      // Unlock account key with the key derived from the master password
+      const { kdfProfile, encryptionKeyId } = await unlockAccountKey(
+        authResponse.userId,
         password,
-        authResponse.userId
+        true,
+        credential
       );
 
+      await syncLoginHash(email, password, kdfProfile, credential);
+      const namesMigrated = await encryptPlaintextNames(
+        authResponse.userId,
+        encryptionKeyId
+      );
+      const keyPairId = await loadKeyPair(encryptionKeyId);
+
       // Update state
       set({
         user: {
@@ -79,7 +310,10 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
         },
         accessToken: authResponse.accessToken,
         refreshToken: authResponse.refreshToken,
-        encryptionKey, // Store in memory ONLY
+        encryptionKeyId, // Key handle lives in the key manager (memory only)
+        keyPairId,
+        kdfProfile,
+        namesMigrated,
         isAuthenticated: true,
         isLoading: false,
       });
@@ -102,22 +336,44 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
+      // Create KDF profile (random salt) and derive master key
+      const kdfProfile = createKdfProfile();
+      const masterKey = await deriveEncryptionKey(password, kdfProfile);
+
+      // Register with the login hash - the master password never leaves the device
       const authResponse = await AuthService.register({
         email,
-        password,
+        password: await deriveLoginHash(masterKey),
+        kdfProfile,
         firstName,
         lastName,
       });
 
-      // Derive encryption key from master password
-      const encryptionKey = await deriveEncryptionKey(
-        password,
-        authResponse.userId
-      );
-
       // Persist tokens to SecureStore
       await saveTokens(authResponse.accessToken, authResponse.refreshToken);
 
+      // Generate random account key and store it wrapped by the master key,
+      // together with a key check for verifying the password on unlock
+      // and the sharing key pair (private key encrypted by the account key)
+      const accountKey = generateSymmetricKey();
+      const encryptionKeyId = await registerKey(accountKey);
+      const encryptedAccountKey = await wrapKey(accountKey, masterKey, {
+        kdfParamsRef: kdfProfile.id,
+      });
+      const keyCheck = await createKeyCheck(masterKey, kdfProfile.id);
+      const { publicKey, encryptedPrivateKey, keyPairId } =
+        await KeyPairService.createKeyPair(encryptionKeyId);
+      await AccountService.updateKeys({
+        kdfProfile,
+        encryptedAccountKey,
+        keyCheck,
+        publicKey,
+        encryptedPrivateKey,
+      });
+
+      // Recovery code wraps the account key too - shown once after registration
+      const pendingRecoveryCode = await setupInitialRecovery(accountKey);
+
       // Update state
       set({
         user: {
@@ -128,7 +384,11 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
         },
         accessToken: authResponse.accessToken,
         refreshToken: authResponse.refreshToken,
-        encryptionKey, // Store in memory ONLY
+        encryptionKeyId, // Key handle lives in the key manager (memory only)
+        keyPairId,
+        kdfProfile,
+        namesMigrated: true, // New accounts never had plaintext names
+        pendingRecoveryCode,
         isAuthenticated: true,
         isLoading: false,
       });
@@ -148,15 +408,20 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     } catch (error) {
       console.warn('Logout API call failed:', error);
     } finally {
-      // Clear tokens from SecureStore
+      // Clear tokens from SecureStore and key handles from memory
       await clearTokens();
-      
+      clearKeys();
+
       // Clear all state
       set({
         user: null,
         accessToken: null,
         refreshToken: null,
-        encryptionKey: null, // CRITICAL: Clear encryption key
+        encryptionKeyId: null, // CRITICAL: Clear encryption key
+        keyPairId: null,
+        kdfProfile: null,
+        namesMigrated: false,
+        pendingRecoveryCode: null,
         isAuthenticated: false,
         error: null,
       });
@@ -198,7 +463,8 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
 
   // Lock app (clear encryption key but keep session)
   lockApp: () => {
-    set({ encryptionKey: null });
+    clearKeys();
+    set({ encryptionKeyId: null, keyPairId: null, pendingRecoveryCode: null });
   },
 
   // Unlock app (re-derive encryption key from master password)
@@ -212,15 +478,27 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      // Re-derive encryption key
-      const encryptionKey = await deriveEncryptionKey(masterPassword, user.id);
+      // Re-derive master key and unwrap account key
+      const { kdfProfile, encryptionKeyId } = await unlockAccountKey(
+        user.id,
+        masterPassword,
+        false
+      );
+
+      // Note: A wrong password is rejected by the key check before anything
+      // is decrypted. Legacy accounts without one are verified against their
+      // first item during migration and get a key check once migrated.
+
+      // Catch up the login hash if the KDF profile was upgraded
+      await syncLoginHash(user.email, masterPassword, kdfProfile);
+      const namesMigrated = await encryptPlaintextNames(user.id, encryptionKeyId);
+      const keyPairId = await loadKeyPair(encryptionKeyId);
 
-      // Note: Password verification happens when user tries to decrypt their first item
-      // If wrong password was entered, decryption will fail and user will see error
-      // This is acceptable since we can't verify without attempting decryption
-      
       set({
-        encryptionKey,
+        encryptionKeyId,
+        keyPairId,
+        kdfProfile,
+        namesMigrated,
         isLoading: false,
       });
     } catch (error: any) {
@@ -231,4 +509,123 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
       throw error;
     }
   },
+
+  // Change master password (re-encrypts every item under a new account key)
+  // Loading state is tracked by the calling screen - this can take a while
+  changeMasterPassword: async (
+    currentPassword: string,
+    newPassword: string,
+    onProgress?: (done: number, total: number) => void
+  ) => {
+    const { user } = get();
+
+    if (!user) {
+      throw new Error('No active session');
+    }
+
+    try {
+      const { kdfProfile, encryptionKeyId } =
+        await RekeyService.changeMasterPassword(
+          user.id,
+          user.email,
+          currentPassword,
+          newPassword,
+          onProgress
+        );
+
+      set({ encryptionKeyId, kdfProfile });
+    } catch (error: any) {
+      // Items may already be under the new account key - unlocking again
+      // resumes whatever was committed so the session keeps a working key
+      if (await RekeyService.hasPendingPasswordChange(user.id)) {
+        try {
+          const recovered = await unlockAccountKey(
+            user.id,
+            currentPassword,
+            true
+          ).catch(() => unlockAccountKey(user.id, newPassword, true));
+          set({
+            encryptionKeyId: recovered.encryptionKeyId,
+            kdfProfile: recovered.kdfProfile,
+          });
+        } catch (recoveryError) {
+          console.warn(
+            'Failed to recover key after password change:',
+            recoveryError
+          );
+        }
+      }
+
+      throw error;
+    }
+  },
+
+  // Generate a new recovery code (the previous one stops working)
+  // Loading state is tracked by the calling screen
+  createRecoveryCode: async (masterPassword: string) => {
+    const { user } = get();
+
+    if (!user) {
+      throw new Error('No active session');
+    }
+
+    // Wrapping needs the raw account key - unwrap it again with the password
+    const { accountKey } = await unwrapAccountKey(
+      user.id,
+      masterPassword,
+      false
+    );
+    const pendingRecoveryCode = await RecoveryService.setupRecovery(accountKey);
+
+    set({ pendingRecoveryCode });
+  },
+
+  // Forget the recovery code once the user has saved it
+  dismissRecoveryCode: () => set({ pendingRecoveryCode: null }),
+
+  // Recover account with a recovery code and set a new master password
+  recoverAccount: async (
+    email: string,
+    recoveryCode: string,
+    newPassword: string
+  ) => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const { authResponse, kdfProfile, accountKey } =
+        await RecoveryService.recoverAccount(email, recoveryCode, newPassword);
+      const encryptionKeyId = await registerKey(accountKey);
+
+      // Biometric unlock stored the forgotten password
+      await SecureStore.deleteItemAsync(ENV.STORAGE_KEYS.BIOMETRIC_PASSWORD);
+      const namesMigrated = await encryptPlaintextNames(
+        authResponse.userId,
+        encryptionKeyId
+      );
+      const keyPairId = await loadKeyPair(encryptionKeyId);
+
+      set({
+        user: {
+          id: authResponse.userId,
+          email: authResponse.email,
+          firstName: authResponse.firstName,
+          lastName: authResponse.lastName,
+        },
+        accessToken: authResponse.accessToken,
+        refreshToken: authResponse.refreshToken,
+        encryptionKeyId, // Key handle lives in the key manager (memory only)
+        keyPairId,
+        kdfProfile,
+        namesMigrated,
+        isAuthenticated: true,
+        isLoading: false,
+      });
+    } catch (error: any) {
+      set({
+        error: error.message || 'Account recovery failed',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
 }));
@@ -0,0 +1,314 @@
+/**
+ * Emergency Access Store (Zustand)
+ *
+ * Manages emergency access in both directions:
+ * - Trusted contacts (user is the owner): invite, approve/deny, revoke
+ * - Granted access (user is the contact): accept, request, take over
+ * - Shares keys of new vaults on request, only with contacts whose key
+ *   still matches the fingerprint verified on this device
+ * - Pending actions surfaced as in-app notifications
+ */
+
+import { create } from 'zustand';
+import { EmergencyAccessService } from '@/services/emergency-access.service';
+import { RekeyService } from '@/services/rekey.service';
+import { getPublicKeyFingerprint } from '@/crypto';
+import { useVaultStore } from './vault.store';
+import { getVaultRole } from '@/utils/vault-permissions';
+import { isEmergencyAccessGranted } from '@/utils/emergency-access';
+import { EmergencyAccess, UserPublicKey, Vault } from '@/types';
+
+export type ContactKeyStatus = 'verified' | 'unverified' | 'changed';
+
+interface EmergencyAccessStore {
+  // State
+  trustedContacts: EmergencyAccess[];
+  grantedAccess: EmergencyAccess[];
+  contactKeyStatus: Record<string, ContactKeyStatus>; // By access id
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchEmergencyAccess: () => Promise<void>;
+  shareNewVaults: (encryptionKeyId: string, keyPairId: string) => Promise<string[]>;
+  verifyContactKey: (accessId: string) => Promise<void>;
+  inviteContact: (
+    contact: UserPublicKey,
+    waitDays: number,
+    encryptionKeyId: string,
+    keyPairId: string
+  ) => Promise<void>;
+  approveRequest: (accessId: string) => Promise<void>;
+  denyRequest: (accessId: string) => Promise<void>;
+  acceptInvitation: (accessId: string) => Promise<void>;
+  requestAccess: (accessId: string) => Promise<void>;
+  takeOverAccess: (
+    accessId: string,
+    encryptionKeyId: string,
+    keyPairId: string | null
+  ) => Promise<void>;
+  removeEmergencyAccess: (accessId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+/**
+ * Vaults owned by the user, each with its own vault key
+ * (vaults still under the account key are moved first)
+ */
+async function getShareableOwnedVaults(
+  encryptionKeyId: string,
+  keyPairId: string
+): Promise<Vault[]> {
+  const vaultStore = useVaultStore.getState();
+  const owned = vaultStore.vaults.filter(
+    (vault) => getVaultRole(vault) === 'owner' && vault.keyId
+  );
+
+  const needsMove = owned.some(
+    (vault) =>
+      !vault.memberKey ||
+      RekeyService.isVaultKeyMovePending(vault, encryptionKeyId)
+  );
+  if (!needsMove) {
+    return owned;
+  }
+
+  const moved: Vault[] = [];
+  for (const vault of owned) {
+    moved.push(
+      vault.memberKey &&
+        !RekeyService.isVaultKeyMovePending(vault, encryptionKeyId)
+        ? vault
+        : await RekeyService.moveVaultToVaultKey(
+            vault,
+            encryptionKeyId,
+            keyPairId
+          )
+    );
+  }
+
+  await vaultStore.fetchVaults(encryptionKeyId, keyPairId);
+  return moved;
+}
+
+/**
+ * Compare a contact's key as returned by the server with the fingerprint
+ * verified on this device
+ */
+async function getContactKeyStatus(
+  access: EmergencyAccess
+): Promise<ContactKeyStatus> {
+  const verified = await EmergencyAccessService.getVerifiedFingerprint(access.id);
+  if (!verified) {
+    return 'unverified';
+  }
+
+  const current = await getPublicKeyFingerprint(access.granteePublicKey);
+  return current === verified ? 'verified' : 'changed';
+}
+
+/**
+ * Replace one record in a list by id
+ */
+function replaceAccess(
+  list: EmergencyAccess[],
+  updated: EmergencyAccess
+): EmergencyAccess[] {
+  return list.map((access) => (access.id === updated.id ? updated : access));
+}
+
+/**
+ * Number of emergency access items waiting for the user to act
+ */
+export function getEmergencyNotificationCount(state: {
+  trustedContacts: EmergencyAccess[];
+  grantedAccess: EmergencyAccess[];
+}): number {
+  const decisions = state.trustedContacts.filter(
+    (access) => access.status === 'requested' && !isEmergencyAccessGranted(access)
+  ).length;
+  const invitations = state.grantedAccess.filter(
+    (access) => access.status === 'invited'
+  ).length;
+  const ready = state.grantedAccess.filter(
+    (access) => isEmergencyAccessGranted(access) && !access.takenOverAt
+  ).length;
+
+  return decisions + invitations + ready;
+}
+
+export const useEmergencyAccessStore = create<EmergencyAccessStore>(
+  (set, get) => ({
+    // Initial state
+    trustedContacts: [],
+    grantedAccess: [],
+    contactKeyStatus: {},
+    isLoading: false,
+    error: null,
+
+    // Fetch both directions and check contact keys against verified ones
+    fetchEmergencyAccess: async () => {
+      set({ isLoading: true, error: null });
+
+      try {
+        const [trustedContacts, grantedAccess] = await Promise.all([
+          EmergencyAccessService.getTrustedContacts(),
+          EmergencyAccessService.getGrantedAccess(),
+        ]);
+
+        const contactKeyStatus: Record<string, ContactKeyStatus> = {};
+        for (const access of trustedContacts) {
+          contactKeyStatus[access.id] = await getContactKeyStatus(access);
+        }
+
+        set({ trustedContacts, grantedAccess, contactKeyStatus, isLoading: false });
+      } catch (error: any) {
+        set({
+          error: error.message || 'Failed to load emergency access',
+          isLoading: false,
+        });
+        throw error;
+      }
+    },
+
+    // Seal keys of new vaults for contacts; returns emails skipped because
+    // their key is not verified or changed since it was verified
+    shareNewVaults: async (encryptionKeyId: string, keyPairId: string) => {
+      const vaults = await getShareableOwnedVaults(encryptionKeyId, keyPairId);
+      const skipped: string[] = [];
+
+      for (const access of get().trustedContacts) {
+        const missing = vaults.filter(
+          (vault) => !access.vaultIds?.includes(vault.id)
+        );
+        if (missing.length === 0) continue;
+
+        const status = await getContactKeyStatus(access);
+        set((state) => ({
+          contactKeyStatus: { ...state.contactKeyStatus, [access.id]: status },
+        }));
+        if (status !== 'verified') {
+          skipped.push(access.granteeEmail);
+          continue;
+        }
+
+        const updated = await EmergencyAccessService.addVaultKeys(
+          access.id,
+          await EmergencyAccessService.sealVaultKeys(
+            missing,
+            access.granteePublicKey,
+            keyPairId
+          )
+        );
+        set((state) => ({
+          trustedContacts: replaceAccess(state.trustedContacts, updated),
+        }));
+      }
+
+      return skipped;
+    },
+
+    // Trust the contact's current key (after the fingerprint was verified)
+    verifyContactKey: async (accessId: string) => {
+      const access = get().trustedContacts.find((a) => a.id === accessId);
+      if (!access) {
+        throw new Error('Trusted contact not found');
+      }
+
+      await EmergencyAccessService.setVerifiedFingerprint(
+        accessId,
+        await getPublicKeyFingerprint(access.granteePublicKey)
+      );
+      set((state) => ({
+        contactKeyStatus: { ...state.contactKeyStatus, [accessId]: 'verified' },
+      }));
+    },
+
+    // Invite a trusted contact (after the fingerprint was verified)
+    inviteContact: async (
+      contact: UserPublicKey,
+      waitDays: number,
+      encryptionKeyId: string,
+      keyPairId: string
+    ) => {
+      const vaults = await getShareableOwnedVaults(encryptionKeyId, keyPairId);
+      const access = await EmergencyAccessService.inviteContact(
+        contact,
+        waitDays,
+        await EmergencyAccessService.sealVaultKeys(
+          vaults,
+          contact.publicKey,
+          keyPairId
+        )
+      );
+      await EmergencyAccessService.setVerifiedFingerprint(
+        access.id,
+        await getPublicKeyFingerprint(contact.publicKey)
+      );
+
+      set((state) => ({
+        trustedContacts: [...state.trustedContacts, access],
+        contactKeyStatus: { ...state.contactKeyStatus, [access.id]: 'verified' },
+      }));
+    },
+
+    approveRequest: async (accessId: string) => {
+      const updated = await EmergencyAccessService.approveRequest(accessId);
+      set((state) => ({
+        trustedContacts: replaceAccess(state.trustedContacts, updated),
+      }));
+    },
+
+    denyRequest: async (accessId: string) => {
+      const updated = await EmergencyAccessService.denyRequest(accessId);
+      set((state) => ({
+        trustedContacts: replaceAccess(state.trustedContacts, updated),
+      }));
+    },
+
+    acceptInvitation: async (accessId: string) => {
+      const updated = await EmergencyAccessService.acceptInvitation(accessId);
+      set((state) => ({
+        grantedAccess: replaceAccess(state.grantedAccess, updated),
+      }));
+    },
+
+    requestAccess: async (accessId: string) => {
+      const updated = await EmergencyAccessService.requestAccess(accessId);
+      set((state) => ({
+        grantedAccess: replaceAccess(state.grantedAccess, updated),
+      }));
+    },
+
+    // Become a viewer of the owner's vaults, then reload the vault list
+    takeOverAccess: async (
+      accessId: string,
+      encryptionKeyId: string,
+      keyPairId: string | null
+    ) => {
+      await EmergencyAccessService.takeOverAccess(accessId);
+
+      set((state) => ({
+        grantedAccess: state.grantedAccess.map((access) =>
+          access.id === accessId
+            ? { ...access, takenOverAt: new Date().toISOString() }
+            : access
+        ),
+      }));
+
+      await useVaultStore.getState().fetchVaults(encryptionKeyId, keyPairId);
+    },
+
+    removeEmergencyAccess: async (accessId: string) => {
+      await EmergencyAccessService.removeEmergencyAccess(accessId);
+      await EmergencyAccessService.removeVerifiedFingerprint(accessId);
+      set((state) => ({
+        trustedContacts: state.trustedContacts.filter((a) => a.id !== accessId),
+        grantedAccess: state.grantedAccess.filter((a) => a.id !== accessId),
+      }));
+    },
+
+    // Clear error
+    clearError: () => set({ error: null }),
+  })
+);
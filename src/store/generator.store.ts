@@ -0,0 +1,212 @@
+/**
+ * Generator Store (Zustand)
+ *
+ * Remembers the generator mode and options between uses, and holds the
+ * decrypted generator history while the app is unlocked
+ * (see GeneratorHistoryService - values are stored encrypted)
+ */
+
+import { create } from 'zustand';
+import * as SecureStore from 'expo-secure-store';
+import {
+  DEFAULT_PASSWORD_OPTIONS,
+  DEFAULT_PASSPHRASE_OPTIONS,
+  DEFAULT_USERNAME_OPTIONS,
+  PasswordGeneratorOptions,
+  PassphraseOptions,
+  UsernameGeneratorOptions,
+} from '@/crypto';
+import { GeneratorHistoryService } from '@/services/generator-history.service';
+import { useAuthStore } from './auth.store';
+import { GeneratedValueKind, GeneratorHistoryEntry } from '@/types';
+import ENV from '@/config/env';
+
+const OPTIONS_KEY = ENV.STORAGE_KEYS.GENERATOR_OPTIONS;
+
+export type GeneratorMode = 'password' | 'passphrase';
+
+interface GeneratorStore {
+  // State
+  mode: GeneratorMode;
+  passwordOptions: PasswordGeneratorOptions;
+  passphraseOptions: PassphraseOptions;
+  usernameOptions: UsernameGeneratorOptions;
+  history: GeneratorHistoryEntry[]; // Newest first
+  historyKeyId: string | null; // Account key the loaded history belongs to
+  isLoaded: boolean;
+  error: string | null;
+
+  // Actions
+  loadOptions: () => Promise<void>;
+  setMode: (mode: GeneratorMode) => Promise<void>;
+  setPasswordOptions: (options: PasswordGeneratorOptions) => Promise<void>;
+  setPassphraseOptions: (options: PassphraseOptions) => Promise<void>;
+  setUsernameOptions: (options: UsernameGeneratorOptions) => Promise<void>;
+  loadHistory: () => Promise<void>;
+  addToHistory: (value: string, kind: GeneratedValueKind) => Promise<void>;
+  clearHistory: () => Promise<void>;
+  clearError: () => void;
+}
+
+/**
+ * Persist the current mode and options
+ */
+async function saveOptions(state: GeneratorStore): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(
+      OPTIONS_KEY,
+      JSON.stringify({
+        mode: state.mode,
+        password: state.passwordOptions,
+        passphrase: state.passphraseOptions,
+        username: state.usernameOptions,
+      })
+    );
+  } catch (error) {
+    console.error('Failed to save generator options:', error);
+  }
+}
+
+export const useGeneratorStore = create<GeneratorStore>((set, get) => ({
+  // Initial state
+  mode: 'password',
+  passwordOptions: DEFAULT_PASSWORD_OPTIONS,
+  passphraseOptions: DEFAULT_PASSPHRASE_OPTIONS,
+  usernameOptions: DEFAULT_USERNAME_OPTIONS,
+  history: [],
+  historyKeyId: null,
+  isLoaded: false,
+  error: null,
+
+  // Load saved options (defaults fill anything missing)
+  loadOptions: async () => {
+    if (get().isLoaded) return;
+
+    try {
+      const saved = await SecureStore.getItemAsync(OPTIONS_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        set({
+          usernameOptions: {
+            ...DEFAULT_USERNAME_OPTIONS,
+            ...parsed.username,
+          },
+          mode: parsed.mode === 'passphrase' ? 'passphrase' : 'password',
+          passphraseOptions: {
+            ...DEFAULT_PASSPHRASE_OPTIONS,
+            ...parsed.passphrase,
+          },
+          passwordOptions: {
+            ...DEFAULT_PASSWORD_OPTIONS,
+            ...parsed.password,
+            classes: {
+              ...DEFAULT_PASSWORD_OPTIONS.classes,
+              ...parsed.password?.classes,
+            },
+            minimums: {
+              ...DEFAULT_PASSWORD_OPTIONS.minimums,
+              ...parsed.password?.minimums,
+            },
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load generator options:', error);
+    } finally {
+      set({ isLoaded: true });
+    }
+  },
+
+  // Switch between random characters and diceware words
+  setMode: async (mode: GeneratorMode) => {
+    set({ mode });
+    await saveOptions(get());
+  },
+
+  // Update and persist options
+  setPasswordOptions: async (options: PasswordGeneratorOptions) => {
+    set({ passwordOptions: options });
+    await saveOptions(get());
+  },
+
+  setPassphraseOptions: async (options: PassphraseOptions) => {
+    set({ passphraseOptions: options });
+    await saveOptions(get());
+  },
+
+  setUsernameOptions: async (options: UsernameGeneratorOptions) => {
+    set({ usernameOptions: options });
+    await saveOptions(get());
+  },
+
+  // Decrypt the history with the current account key (once per unlock)
+  loadHistory: async () => {
+    const { user, encryptionKeyId } = useAuthStore.getState();
+    if (!user || !encryptionKeyId) {
+      set({ history: [], historyKeyId: null });
+      return;
+    }
+    if (get().historyKeyId === encryptionKeyId) return;
+
+    try {
+      const history = await GeneratorHistoryService.getHistory(
+        user.id,
+        encryptionKeyId
+      );
+      set({ history, historyKeyId: encryptionKeyId, error: null });
+    } catch (error) {
+      console.error('Failed to load generator history:', error);
+      set({ history: [], error: 'Generator history could not be decrypted' });
+    }
+  },
+
+  // Record a generated value (skipped while locked)
+  addToHistory: async (value: string, kind: GeneratedValueKind) => {
+    const { user, encryptionKeyId } = useAuthStore.getState();
+    if (!user || !encryptionKeyId) return;
+
+    await get().loadHistory();
+    // Never overwrite a history that could not be read
+    if (get().historyKeyId !== encryptionKeyId) return;
+
+    try {
+      const history = await GeneratorHistoryService.addEntry(
+        user.id,
+        encryptionKeyId,
+        get().history,
+        { value, kind, createdAt: new Date().toISOString() }
+      );
+      set({ history });
+    } catch (error) {
+      console.error('Failed to save generator history:', error);
+      set({ error: 'Failed to save generator history' });
+    }
+  },
+
+  clearHistory: async () => {
+    const { user } = useAuthStore.getState();
+    if (!user) return;
+
+    try {
+      await GeneratorHistoryService.clearHistory(user.id);
+      // A cleared history can be written again with the current key
+      set({
+        history: [],
+        historyKeyId: useAuthStore.getState().encryptionKeyId,
+        error: null,
+      });
+    } catch (error) {
+      console.error('Failed to clear generator history:', error);
+      set({ error: 'Failed to clear generator history' });
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
+
+// Drop decrypted values as soon as the app locks or logs out
+useAuthStore.subscribe((state) => {
+  if (!state.encryptionKeyId && useGeneratorStore.getState().historyKeyId) {
+    useGeneratorStore.setState({ history: [], historyKeyId: null });
+  }
+});
@@ -5,10 +5,16 @@
  * - List of encrypted items
  * - Decrypted items cache (for display)
  * - CRUD operations with client-side encryption
+ * - Item names decrypted on fetch (list display only, data stays encrypted)
+ * - Changes blocked for view-only members of shared vaults
  */
 
 import { create } from 'zustand';
 import { VaultItemService } from '@/services/vault-item.service';
+import { VaultService } from '@/services/vault.service';
+import { useVaultStore } from './vault.store';
+import { useAuthStore } from './auth.store';
+import { canEditItems, getVaultRole } from '@/utils/vault-permissions';
 import {
   VaultItem,
   DecryptedVaultItem,
@@ -16,21 +22,36 @@ import {
   VaultItemData,
 } from '@/types';
 
+/**
+ * Reject item changes in vaults the user can only view
+ * (the server enforces the same rule). Vaults not loaded yet are fetched
+ * first - an unknown vault never counts as editable.
+ */
+async function assertCanEditItems(vaultId: string): Promise<void> {
+  const vault =
+    useVaultStore.getState().vaults.find((v) => v.id === vaultId) ??
+    (await VaultService.getVaultById(vaultId));
+  if (!canEditItems(getVaultRole(vault))) {
+    throw new Error('You have view-only access to this vault');
+  }
+}
+
 interface VaultItemStore {
   // State
   items: VaultItem[];
+  itemsVaultId: string | null; // Vault the items list belongs to
   decryptedItems: Map<string, DecryptedVaultItem>;
   isLoading: boolean;
   error: string | null;
 
   // Actions
-  fetchItems: (vaultId: string) => Promise<void>;
+  fetchItems: (vaultId: string, encryptionKeyId: string) => Promise<void>;
   createItem: (
     vaultId: string,
     type: VaultItemType,
     name: string,
     data: VaultItemData,
-    encryptionKey: string,
+    encryptionKeyId: string,
     favorite?: boolean
   ) => Promise<VaultItem>;
   updateItem: (
@@ -38,11 +59,11 @@ interface VaultItemStore {
     itemId: string,
     name: string,
     data: VaultItemData,
-    encryptionKey: string,
+    encryptionKeyId: string,
     favorite?: boolean
   ) => Promise<void>;
   deleteItem: (vaultId: string, itemId: string) => Promise<void>;
-  decryptItem: (itemId: string, encryptionKey: string) => Promise<void>;
+  decryptItem: (itemId: string, encryptionKeyId: string) => Promise<void>;
   toggleFavorite: (
     vaultId: string,
     itemId: string,
@@ -55,17 +76,22 @@ interface VaultItemStore {
 export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
   // Initial state
   items: [],
+  itemsVaultId: null,
   decryptedItems: new Map(),
   isLoading: false,
   error: null,
 
-  // Fetch items for a vault
-  fetchItems: async (vaultId: string) => {
+  // Fetch items for a vault (decrypts names for display)
+  fetchItems: async (vaultId: string, encryptionKeyId: string) => {
     set({ isLoading: true, error: null });
 
     try {
-      const items = await VaultItemService.getVaultItems(vaultId);
-      set({ items, isLoading: false });
+      const items = await VaultItemService.decryptItemNames(
+        await VaultItemService.getVaultItems(vaultId),
+        encryptionKeyId,
+        useAuthStore.getState().namesMigrated
+      );
+      set({ items, itemsVaultId: vaultId, isLoading: false });
     } catch (error: any) {
       set({
         error: error.message || 'Failed to fetch items',
@@ -81,9 +107,10 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
     type: VaultItemType,
     name: string,
     data: VaultItemData,
-    encryptionKey: string,
+    encryptionKeyId: string,
     favorite: boolean = false
   ) => {
+    await assertCanEditItems(vaultId);
     set({ isLoading: true, error: null });
 
     try {
@@ -92,12 +119,17 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
         type,
         name,
         data,
-        encryptionKey,
+        encryptionKeyId,
         favorite
       );
 
+      // Items created in another vault (e.g. by an import) show up when
+      // that vault is opened
       set((state) => ({
-        items: [...state.items, newItem],
+        items:
+          state.itemsVaultId === vaultId
+            ? [...state.items, newItem]
+            : state.items,
         isLoading: false,
       }));
 
@@ -117,18 +149,26 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
     itemId: string,
     name: string,
     data: VaultItemData,
-    encryptionKey: string,
+    encryptionKeyId: string,
     favorite?: boolean
   ) => {
+    await assertCanEditItems(vaultId);
+    const item = get().items.find((i) => i.id === itemId);
+
+    if (!item) {
+      throw new Error('Item not found');
+    }
+
     set({ isLoading: true, error: null });
 
     try {
       const updatedItem = await VaultItemService.updateVaultItemData(
         vaultId,
         itemId,
+        item.type,
         name,
         data,
-        encryptionKey,
+        encryptionKeyId,
         favorite
       );
 
@@ -159,6 +199,7 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
 
   // Delete item
   deleteItem: async (vaultId: string, itemId: string) => {
+    await assertCanEditItems(vaultId);
     set({ isLoading: true, error: null });
 
     try {
@@ -184,7 +225,7 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
   },
 
   // Decrypt item and cache result
-  decryptItem: async (itemId: string, encryptionKey: string) => {
+  decryptItem: async (itemId: string, encryptionKeyId: string) => {
     const { items } = get();
     const item = items.find((i) => i.id === itemId);
 
@@ -195,7 +236,8 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
     try {
       const decryptedItem = await VaultItemService.decryptVaultItem(
         item,
-        encryptionKey
+        encryptionKeyId,
+        useAuthStore.getState().namesMigrated
       );
 
       set((state) => {
@@ -216,6 +258,8 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
     itemId: string,
     currentStatus: boolean
   ) => {
+    await assertCanEditItems(vaultId);
+
     try {
       const updatedItem = await VaultItemService.toggleFavorite(
         vaultId,
@@ -223,9 +267,10 @@ export const useVaultItemStore = create<VaultItemStore>((set, get) => ({
         currentStatus
       );
 
+      // Server copy has no plaintext name - keep the decrypted one
       set((state) => ({
         items: state.items.map((item) =>
-          item.id === itemId ? updatedItem : item
+          item.id === itemId ? { ...updatedItem, name: item.name } : item
         ),
       }));
     } catch (error: any) {
@@ -4,25 +4,64 @@
  * Manages vault state and operations:
  * - List of vaults
  * - Current selected vault
- * - CRUD operations
+ * - CRUD operations (name and description encrypted client-side)
+ * - Members of shared vaults (invite, change role, remove)
  */
 
 import { create } from 'zustand';
 import { VaultService } from '@/services/vault.service';
-import { Vault, CreateVaultRequest, UpdateVaultRequest } from '@/types';
+import { RekeyService } from '@/services/rekey.service';
+import { KeyPairService } from '@/services/key-pair.service';
+import { useAuthStore } from './auth.store';
+import { getPublicKeyFingerprint } from '@/crypto';
+import { Vault, VaultMetadata, VaultMember, VaultRole, UserPublicKey } from '@/types';
+
+export interface VaultInvitee {
+  user: UserPublicKey;
+  fingerprint: string; // Shown to the inviter to compare out of band
+}
 
 interface VaultStore {
   // State
   vaults: Vault[];
+  members: Record<string, VaultMember[]>; // By vault id
   currentVaultId: string | null;
   isLoading: boolean;
   error: string | null;
 
   // Actions
-  fetchVaults: () => Promise<void>;
-  createVault: (request: CreateVaultRequest) => Promise<Vault>;
-  updateVault: (vaultId: string, request: UpdateVaultRequest) => Promise<void>;
+  fetchVaults: (
+    encryptionKeyId: string,
+    keyPairId: string | null
+  ) => Promise<void>;
+  createVault: (
+    metadata: VaultMetadata,
+    encryptionKeyId: string,
+    keyPairId: string | null,
+    icon?: string
+  ) => Promise<Vault>;
+  updateVault: (
+    vaultId: string,
+    metadata: VaultMetadata,
+    encryptionKeyId: string,
+    icon?: string
+  ) => Promise<void>;
   deleteVault: (vaultId: string) => Promise<void>;
+  fetchMembers: (vaultId: string) => Promise<void>;
+  findInvitee: (email: string) => Promise<VaultInvitee>;
+  inviteMember: (
+    vaultId: string,
+    invitee: UserPublicKey,
+    role: VaultRole,
+    encryptionKeyId: string,
+    keyPairId: string
+  ) => Promise<void>;
+  updateMemberRole: (
+    vaultId: string,
+    userId: string,
+    role: VaultRole
+  ) => Promise<void>;
+  removeMember: (vaultId: string, userId: string) => Promise<void>;
   setCurrentVault: (vaultId: string | null) => void;
   clearError: () => void;
 }
@@ -30,16 +69,42 @@ interface VaultStore {
 export const useVaultStore = create<VaultStore>((set, get) => ({
   // Initial state
   vaults: [],
+  members: {},
   currentVaultId: null,
   isLoading: false,
   error: null,
 
-  // Fetch all vaults
-  fetchVaults: async () => {
+  // Fetch all vaults (opens vault keys and decrypts names for display)
+  fetchVaults: async (encryptionKeyId: string, keyPairId: string | null) => {
     set({ isLoading: true, error: null });
 
     try {
-      const vaults = await VaultService.getVaults();
+      const fetched = await VaultService.getVaults();
+
+      // Finish vault key moves interrupted before sharing completed
+      const pending = keyPairId
+        ? fetched.filter((vault) =>
+            RekeyService.isVaultKeyMovePending(vault, encryptionKeyId)
+          )
+        : [];
+      for (const vault of pending) {
+        try {
+          await RekeyService.moveVaultToVaultKey(
+            vault,
+            encryptionKeyId,
+            keyPairId!
+          );
+        } catch (error) {
+          console.error('Failed to resume vault key move:', error);
+        }
+      }
+
+      const vaults = await VaultService.decryptVaults(
+        pending.length > 0 ? await VaultService.getVaults() : fetched,
+        encryptionKeyId,
+        keyPairId,
+        useAuthStore.getState().namesMigrated
+      );
       set({ vaults, isLoading: false });
     } catch (error: any) {
       set({
@@ -51,11 +116,21 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
   },
 
   // Create new vault
-  createVault: async (request: CreateVaultRequest) => {
+  createVault: async (
+    metadata: VaultMetadata,
+    encryptionKeyId: string,
+    keyPairId: string | null,
+    icon?: string
+  ) => {
     set({ isLoading: true, error: null });
 
     try {
-      const newVault = await VaultService.createVault(request);
+      const newVault = await VaultService.createVault(
+        metadata,
+        encryptionKeyId,
+        keyPairId,
+        icon
+      );
       
       set((state) => ({
         vaults: [...state.vaults, newVault],
@@ -73,15 +148,25 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
   },
 
   // Update vault
-  updateVault: async (vaultId: string, request: UpdateVaultRequest) => {
+  updateVault: async (
+    vaultId: string,
+    metadata: VaultMetadata,
+    encryptionKeyId: string,
+    icon?: string
+  ) => {
     set({ isLoading: true, error: null });
 
     try {
-      const updatedVault = await VaultService.updateVault(vaultId, request);
+      const updatedVault = await VaultService.updateVaultMetadata(
+        vaultId,
+        metadata,
+        encryptionKeyId,
+        icon
+      );
 
       set((state) => ({
         vaults: state.vaults.map((v) =>
-          v.id === vaultId ? updatedVault : v
+          v.id === vaultId ? { ...v, ...updatedVault, keyId: v.keyId } : v
         ),
         isLoading: false,
       }));
@@ -103,6 +188,9 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
 
       set((state) => ({
         vaults: state.vaults.filter((v) => v.id !== vaultId),
+        members: Object.fromEntries(
+          Object.entries(state.members).filter(([id]) => id !== vaultId)
+        ),
         currentVaultId:
           state.currentVaultId === vaultId ? null : state.currentVaultId,
         isLoading: false,
@@ -116,6 +204,109 @@ export const useVaultStore = create<VaultStore>((set, get) => ({
     }
   },
 
+  // Fetch members of a vault
+  fetchMembers: async (vaultId: string) => {
+    const vaultMembers = await VaultService.getVaultMembers(vaultId);
+
+    set((state) => ({
+      members: { ...state.members, [vaultId]: vaultMembers },
+    }));
+  },
+
+  // Look up a user to invite and the fingerprint of their public key
+  findInvitee: async (email: string) => {
+    const user = await KeyPairService.getUserPublicKey(email);
+
+    return {
+      user,
+      fingerprint: await getPublicKeyFingerprint(user.publicKey),
+    };
+  },
+
+  // Share a vault (gives vaults under the account key their own key first)
+  inviteMember: async (
+    vaultId: string,
+    invitee: UserPublicKey,
+    role: VaultRole,
+    encryptionKeyId: string,
+    keyPairId: string
+  ) => {
+    let vault = get().vaults.find((v) => v.id === vaultId);
+    if (!vault) {
+      throw new Error('Vault not found');
+    }
+
+    if (
+      !vault.memberKey ||
+      RekeyService.isVaultKeyMovePending(vault, encryptionKeyId)
+    ) {
+      const movedVault = await RekeyService.moveVaultToVaultKey(
+        vault,
+        encryptionKeyId,
+        keyPairId
+      );
+      vault = { ...vault, ...movedVault };
+
+      set((state) => ({
+        vaults: state.vaults.map((v) => (v.id === vaultId ? vault! : v)),
+      }));
+    }
+
+    const member = await VaultService.addVaultMember(
+      vault,
+      invitee,
+      role,
+      keyPairId
+    );
+
+    set((state) => ({
+      vaults: state.vaults.map((v) =>
+        v.id === vaultId ? { ...v, memberCount: (v.memberCount ?? 1) + 1 } : v
+      ),
+      members: {
+        ...state.members,
+        [vaultId]: [...(state.members[vaultId] ?? []), member],
+      },
+    }));
+  },
+
+  // Change a member's role
+  updateMemberRole: async (vaultId: string, userId: string, role: VaultRole) => {
+    const updatedMember = await VaultService.updateVaultMemberRole(
+      vaultId,
+      userId,
+      role
+    );
+
+    set((state) => ({
+      members: {
+        ...state.members,
+        [vaultId]: (state.members[vaultId] ?? []).map((m) =>
+          m.userId === userId ? updatedMember : m
+        ),
+      },
+    }));
+  },
+
+  // Remove a member from a vault
+  removeMember: async (vaultId: string, userId: string) => {
+    await VaultService.removeVaultMember(vaultId, userId);
+
+    set((state) => ({
+      vaults: state.vaults.map((v) =>
+        v.id === vaultId && v.memberCount
+          ? { ...v, memberCount: v.memberCount - 1 }
+          : v
+      ),
+      members: {
+        ...state.members,
+        [vaultId]: (state.members[vaultId] ?? []).filter(
+          (m) => m.userId !== userId
+        ),
+      },
+    }));
+  },
+
   // Set current vault
   setCurrentVault: (vaultId: string | null) => {
     set({ currentVaultId: vaultId });
@@ -2,22 +2,45 @@
  * Type Definitions for VaultGuard Mobile App
  */
 
-import { EncryptedData } from '@/crypto';
+import {
+  EncryptedData,
+  LegacyEncryptedData,
+  KdfProfile,
+  SealedKey,
+  TotpConfig,
+} from '@/crypto';
 
 // ===== Authentication Types =====
 
+// How the auth server verifies the password field
+// 'password' = raw master password (accounts not migrated yet)
+export type AuthScheme = 'password' | 'login-hash';
+
+// Fetched before login to derive the login hash (unknown emails get a decoy profile)
+export interface PreloginResponse {
+  authScheme: AuthScheme;
+  kdfProfile?: KdfProfile; // Profile the current login hash was derived with
+}
+
 export interface LoginRequest {
   email: string;
-  password: string;
+  password: string; // Login hash (raw password for 'password' scheme)
 }
 
 export interface RegisterRequest {
   email: string;
-  password: string;
+  password: string; // Login hash
+  kdfProfile: KdfProfile;
   firstName: string;
   lastName: string;
 }
 
+export interface ChangePasswordRequest {
+  currentPassword: string; // Current credential (login hash or raw password)
+  newPassword: string; // Login hash derived with kdfProfile
+  kdfProfile: KdfProfile;
+}
+
 export interface AuthResponse {
   accessToken: string;
   refreshToken: string;
@@ -31,30 +54,157 @@ export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+// Registers the hash of a new recovery code (replaces any previous one)
+export interface SetRecoveryRequest {
+  recoveryHash: string;
+}
+
+export interface RecoveryLoginRequest {
+  email: string;
+  recoveryHash: string; // Auth hash derived from the recovery code
+}
+
+// Sent with a session from RecoveryLoginRequest - no current password needed
+export interface ResetPasswordRequest {
+  newPassword: string; // Login hash derived with kdfProfile
+  kdfProfile: KdfProfile;
+}
+
+// ===== Account Key Types =====
+
+// Key metadata stored server-side and fetched before unlock
+export interface AccountKeys {
+  kdfProfile: KdfProfile;
+  encryptedAccountKey?: EncryptedData; // Account key wrapped by master key
+  keyCheck?: EncryptedData; // Verifier encrypted by master key
+  recovery?: AccountRecovery;
+  hasKeyPair: boolean; // Set by the server once a key pair was stored
+  publicKey?: string; // Sharing key pair (base64 raw P-256 point)
+  encryptedPrivateKey?: EncryptedData; // PKCS#8 private key encrypted by account key
+}
+
+// Account key wrapped by the recovery key, and the recovery key wrapped by
+// the account key so a key rotation can re-wrap without the recovery code
+export interface AccountRecovery {
+  encryptedAccountKey: EncryptedData;
+  encryptedRecoveryKey: EncryptedData;
+  createdAt: string;
+}
+
+export interface UpdateAccountKeysRequest {
+  kdfProfile?: KdfProfile;
+  encryptedAccountKey?: EncryptedData;
+  keyCheck?: EncryptedData;
+  recovery?: AccountRecovery;
+  publicKey?: string;
+  encryptedPrivateKey?: EncryptedData;
+}
+
+// Another user's public key, looked up to share with them
+export interface UserPublicKey {
+  userId: string;
+  email: string;
+  publicKey: string;
+}
+
 // ===== Vault Types =====
 
+// owner: everything incl. deleting the vault / manager: also manages members
+// editor: creates, edits and deletes items / viewer: read-only
+export type VaultRole = 'owner' | 'manager' | 'editor' | 'viewer';
+
 export interface Vault {
   id: string;
-  name: string;
-  description?: string;
+  name: string; // Decrypted client-side (legacy records: plaintext from server)
+  description?: string; // Decrypted client-side, like name
+  encryptedMetadata?: EncryptedData; // VaultMetadata encrypted with the vault AAD
   icon?: string;
   itemCount: number;
+  role?: VaultRole; // Caller's role (absent on personal vaults = owner)
+  memberKey?: SealedKey; // Vault key sealed for the caller (absent = account key)
+  memberCount?: number;
+  keyId?: string; // Key manager id for this vault's data (set client-side)
   createdAt: string;
   updatedAt: string;
 }
 
-export interface CreateVaultRequest {
+// Plaintext vault details (before encryption)
+export interface VaultMetadata {
   name: string;
   description?: string;
+}
+
+export interface CreateVaultRequest {
+  id: string; // Client-generated, bound into the encryption AAD
+  encryptedMetadata: EncryptedData;
+  memberKey?: SealedKey; // Vault key sealed for the creator
   icon?: string;
 }
 
 export interface UpdateVaultRequest {
-  name?: string;
-  description?: string;
+  name?: string; // Legacy plaintext - sent empty to clear it
+  description?: string; // Legacy plaintext - sent empty to clear it
+  encryptedMetadata?: EncryptedData;
+  memberKey?: SealedKey; // Caller's own sealed vault key
   icon?: string;
 }
 
+export interface VaultMember {
+  userId: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  role: VaultRole;
+  addedAt: string;
+}
+
+export interface AddVaultMemberRequest {
+  userId: string;
+  role: VaultRole;
+  memberKey: SealedKey; // Vault key sealed for the new member
+}
+
+export interface UpdateVaultMemberRequest {
+  role: VaultRole;
+}
+
+// ===== Emergency Access Types =====
+
+// invited -> accepted -> requested -> approved (denied returns to accepted)
+export type EmergencyAccessStatus = 'invited' | 'accepted' | 'requested' | 'approved';
+
+export interface EmergencyAccess {
+  id: string;
+  grantorId: string;
+  grantorEmail: string;
+  granteeId: string;
+  granteeEmail: string;
+  granteePublicKey: string; // As verified by the owner at invite time
+  status: EmergencyAccessStatus;
+  waitDays: number; // Owner can deny a request during this period
+  requestedAt?: string;
+  takenOverAt?: string; // When the grantee became a viewer of the vaults
+  vaultIds?: string[]; // Vaults with a sealed key for the grantee (grantor view)
+  createdAt: string;
+}
+
+// Vault key sealed for the grantee, released by the server after approval
+export interface EmergencyVaultKey {
+  vaultId: string;
+  memberKey: SealedKey;
+}
+
+export interface InviteEmergencyContactRequest {
+  granteeId: string;
+  granteePublicKey: string;
+  waitDays: number;
+  vaultKeys: EmergencyVaultKey[];
+}
+
+export interface UpdateEmergencyVaultKeysRequest {
+  vaultKeys: EmergencyVaultKey[];
+}
+
 // ===== Vault Item Types =====
 
 export enum VaultItemType {
@@ -67,8 +217,9 @@ export interface VaultItem {
   id: string;
   vaultId: string;
   type: VaultItemType;
-  name: string;
-  encryptedData: EncryptedData; // Encrypted payload
+  name: string; // Decrypted client-side (legacy records: plaintext from server)
+  encryptedName?: EncryptedData; // Name encrypted with the item AAD
+  encryptedData: EncryptedData | LegacyEncryptedData; // Encrypted payload
   favorite: boolean;
   createdAt: string;
   updatedAt: string;
@@ -81,6 +232,7 @@ export interface PasswordItemData {
   password: string;
   url?: string;
   notes?: string;
+  totp?: TotpConfig; // Authenticator (2FA) secret and settings
 }
 
 export interface SecureNoteData {
@@ -104,19 +256,68 @@ export interface DecryptedVaultItem extends Omit<VaultItem, 'encryptedData'> {
 }
 
 export interface CreateVaultItemRequest {
+  id: string; // Client-generated, bound into the encryption AAD
   vaultId: string;
   type: VaultItemType;
-  name: string;
+  encryptedName: EncryptedData;
   encryptedData: EncryptedData;
   favorite?: boolean;
 }
 
 export interface UpdateVaultItemRequest {
-  name?: string;
+  name?: string; // Legacy plaintext - sent empty to clear it
+  encryptedName?: EncryptedData;
   encryptedData?: EncryptedData;
   favorite?: boolean;
 }
 
+// ===== Share Link Types =====
+
+// Payload encrypted under the one-time share key (never sent in plaintext)
+export interface SharedItemPayload {
+  type: VaultItemType;
+  name: string;
+  data: VaultItemData;
+  sharedBy: string; // Sender email, shown to the recipient
+}
+
+export interface ItemShareOptions {
+  expiresInHours: number;
+  maxViews: number;
+}
+
+export interface CreateItemShareRequest {
+  encryptedPayload: EncryptedData;
+  expiresAt: string;
+  maxViews: number;
+}
+
+export interface ItemShare {
+  id: string;
+  expiresAt: string;
+  maxViews: number;
+  viewCount: number;
+  createdAt: string;
+}
+
+// Public view of a share (counts as one view on the server)
+export interface SharedItemResponse {
+  encryptedPayload: EncryptedData;
+  expiresAt: string;
+  remainingViews: number;
+}
+
+// ===== Generator Types =====
+
+export type GeneratedValueKind = 'password' | 'passphrase' | 'username';
+
+// Stored encrypted on this device (see GeneratorHistoryService)
+export interface GeneratorHistoryEntry {
+  value: string;
+  kind: GeneratedValueKind;
+  createdAt: string;
+}
+
 // ===== API Response Types =====
 
 export interface ApiResponse<T> {
@@ -152,7 +353,7 @@ export interface AuthState {
   user: User | null;
   accessToken: string | null;
   refreshToken: string | null;
-  encryptionKey: string | null; // Base64-encoded key (in memory only)
+  encryptionKeyId: string | null; // Key manager id of the account key (never the key itself)
   isAuthenticated: boolean;
   isLoading: boolean;
 }
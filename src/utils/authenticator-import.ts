@@ -0,0 +1,285 @@
+/**
+ * Authenticator Import
+ *
+ * Parses 2FA accounts exported from other authenticator apps:
+ * - otpauth://totp/... key URIs (one per line)
+ * - otpauth-migration://offline?data=... (Google Authenticator "Transfer
+ *   accounts" export: base64 protobuf batch of many accounts)
+ *
+ * Counter-based (HOTP) accounts are reported as skipped - VaultGuard only
+ * shows time-based codes.
+ */
+
+import { decode as base64Decode } from 'base-64';
+import { parseOtpAuthUri, validateTotpConfig, TotpConfig } from '@/crypto';
+
+export interface ImportedAuthenticator {
+  name: string; // Suggested item name (issuer, else account)
+  accountName: string;
+  totp: TotpConfig;
+}
+
+export interface AuthenticatorImportResult {
+  accounts: ImportedAuthenticator[];
+  skipped: string[]; // Reasons for entries that could not be imported
+  batch?: { index: number; size: number }; // Google export split over several QR codes
+}
+
+// Google Authenticator migration payload enums (OtpParameters)
+const MIGRATION_ALGORITHMS: Record<number, TotpConfig['algorithm'] | undefined> = {
+  0: 'SHA1', // Unspecified
+  1: 'SHA1',
+  2: 'SHA256',
+  3: 'SHA512',
+};
+const MIGRATION_DIGITS: Record<number, number | undefined> = {
+  0: 6, // Unspecified
+  1: 6,
+  2: 8,
+};
+const MIGRATION_TYPE_HOTP = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Parse pasted text containing any number of otpauth:// and
+ * otpauth-migration:// URIs (whitespace separated)
+ */
+export function parseAuthenticatorImport(text: string): AuthenticatorImportResult {
+  const result: AuthenticatorImportResult = { accounts: [], skipped: [] };
+  const uris = text.split(/\s+/).filter(Boolean);
+
+  for (const uri of uris) {
+    if (/^otpauth-migration:\/\//i.test(uri)) {
+      try {
+        const migration = parseMigrationUri(uri);
+        result.accounts.push(...migration.accounts);
+        result.skipped.push(...migration.skipped);
+        result.batch = migration.batch ?? result.batch;
+      } catch (error: any) {
+        result.skipped.push(error.message);
+      }
+    } else if (/^otpauth:\/\//i.test(uri)) {
+      try {
+        const totp = parseOtpAuthUri(uri);
+        result.accounts.push(toImportedAuthenticator(totp));
+      } catch (error: any) {
+        result.skipped.push(error.message);
+      }
+    } else {
+      result.skipped.push('Not an otpauth:// link');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a Google Authenticator export (otpauth-migration://offline?data=...)
+ */
+export function parseMigrationUri(uri: string): AuthenticatorImportResult {
+  const match = uri.match(/^otpauth-migration:\/\/offline\?(?:.*&)?data=([^&]+)/i);
+  if (!match) {
+    throw new Error('Invalid Google Authenticator export link');
+  }
+
+  let payload: Uint8Array;
+  try {
+    payload = base64ToBytes(decodeURIComponent(match[1]));
+  } catch (error) {
+    throw new Error('Google Authenticator export is damaged');
+  }
+
+  const result: AuthenticatorImportResult = { accounts: [], skipped: [] };
+  let batchSize: number | undefined;
+  let batchIndex: number | undefined;
+
+  // MigrationPayload: 1 = otp_parameters (repeated), 3 = batch_size, 4 = batch_index
+  for (const field of readProtobuf(payload)) {
+    if (field.number === 1 && field.bytes) {
+      try {
+        const account = parseOtpParameters(field.bytes);
+        if (account) {
+          result.accounts.push(account);
+        } else {
+          result.skipped.push('Counter-based (HOTP) codes are not supported');
+        }
+      } catch (error: any) {
+        result.skipped.push(error.message);
+      }
+    } else if (field.number === 3) {
+      batchSize = field.value;
+    } else if (field.number === 4) {
+      batchIndex = field.value;
+    }
+  }
+
+  if (batchSize && batchSize > 1) {
+    result.batch = { index: batchIndex ?? 0, size: batchSize };
+  }
+
+  return result;
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Decode one OtpParameters message
+ * @returns null for HOTP accounts
+ */
+function parseOtpParameters(bytes: Uint8Array): ImportedAuthenticator | null {
+  let secret: Uint8Array | undefined;
+  let name = '';
+  let issuer = '';
+  let algorithm = 0;
+  let digits = 0;
+  let type = 0;
+
+  for (const field of readProtobuf(bytes)) {
+    switch (field.number) {
+      case 1:
+        secret = field.bytes;
+        break;
+      case 2:
+        name = decodeUtf8(field.bytes);
+        break;
+      case 3:
+        issuer = decodeUtf8(field.bytes);
+        break;
+      case 4:
+        algorithm = field.value ?? 0;
+        break;
+      case 5:
+        digits = field.value ?? 0;
+        break;
+      case 6:
+        type = field.value ?? 0;
+        break;
+    }
+  }
+
+  if (type === MIGRATION_TYPE_HOTP) {
+    return null;
+  }
+
+  const totpAlgorithm = MIGRATION_ALGORITHMS[algorithm];
+  const totpDigits = MIGRATION_DIGITS[digits];
+  if (!secret || !totpAlgorithm || !totpDigits) {
+    throw new Error(`Unsupported settings for "${issuer || name}"`);
+  }
+
+  // Names are often "Issuer:account"
+  const accountName = name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+  const isSteam = issuer.toLowerCase() === 'steam';
+
+  return toImportedAuthenticator(
+    validateTotpConfig({
+      secret: bytesToBase32(secret),
+      algorithm: totpAlgorithm,
+      digits: isSteam ? 5 : totpDigits,
+      period: 30, // Google Authenticator only exports 30-second codes
+      encoding: isSteam ? 'steam' : 'decimal',
+      issuer: issuer || undefined,
+      accountName: accountName.trim() || undefined,
+    })
+  );
+}
+
+function toImportedAuthenticator(totp: TotpConfig): ImportedAuthenticator {
+  return {
+    name: totp.issuer || totp.accountName || 'Authenticator',
+    accountName: totp.accountName ?? '',
+    totp,
+  };
+}
+
+interface ProtobufField {
+  number: number;
+  value?: number; // Varint fields
+  bytes?: Uint8Array; // Length-delimited fields
+}
+
+/**
+ * Minimal protobuf reader (varint and length-delimited fields only)
+ */
+function readProtobuf(bytes: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let position = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    while (position < bytes.length) {
+      const byte = bytes[position++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+    }
+    throw new Error('Google Authenticator export is damaged');
+  };
+
+  while (position < bytes.length) {
+    const tag = readVarint();
+    const number = Math.floor(tag / 8);
+    const wireType = tag & 0x07;
+
+    if (wireType === 0) {
+      fields.push({ number, value: readVarint() });
+    } else if (wireType === 2) {
+      const length = readVarint();
+      if (position + length > bytes.length) {
+        throw new Error('Google Authenticator export is damaged');
+      }
+      fields.push({ number, bytes: bytes.slice(position, position + length) });
+      position += length;
+    } else if (wireType === 1) {
+      position += 8; // Fixed 64-bit, unused
+    } else if (wireType === 5) {
+      position += 4; // Fixed 32-bit, unused
+    } else {
+      throw new Error('Google Authenticator export is damaged');
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Encode bytes as unpadded base32 (RFC 4648)
+ */
+function bytesToBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += BASE32_ALPHABET[(buffer >>> bits) & 0x1f];
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+
+  return output;
+}
+
+function decodeUtf8(bytes?: Uint8Array): string {
+  return bytes ? new TextDecoder().decode(bytes) : '';
+}
+
+/**
+ * Convert base64 string to Uint8Array
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = base64Decode(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,60 @@
+/**
+ * Emergency Access Helpers
+ *
+ * Timing rules for emergency access requests:
+ * - A request becomes effective once the waiting period has passed
+ *   (or immediately if the owner approves it)
+ * - The owner can deny at any time before that
+ *
+ * The server enforces the same timer before releasing any vault keys
+ */
+
+import { EmergencyAccess } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EMERGENCY_WAIT_DAY_OPTIONS = [1, 3, 7, 14, 30];
+
+/**
+ * When a pending request is granted automatically (null if none pending)
+ */
+export function getEmergencyAccessReadyAt(access: EmergencyAccess): Date | null {
+  if (access.status !== 'requested' || !access.requestedAt) {
+    return null;
+  }
+
+  return new Date(new Date(access.requestedAt).getTime() + access.waitDays * DAY_MS);
+}
+
+/**
+ * Whether the grantee may take over access now
+ */
+export function isEmergencyAccessGranted(
+  access: EmergencyAccess,
+  now: Date = new Date()
+): boolean {
+  if (access.status === 'approved') {
+    return true;
+  }
+
+  const readyAt = getEmergencyAccessReadyAt(access);
+  return readyAt !== null && readyAt <= now;
+}
+
+/**
+ * Human-readable time left, e.g. "2 days 3 hours"
+ */
+export function formatTimeRemaining(until: Date, now: Date = new Date()): string {
+  const ms = Math.max(0, until.getTime() - now.getTime());
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / (60 * 60 * 1000));
+  const minutes = Math.ceil((ms % (60 * 60 * 1000)) / (60 * 1000));
+
+  if (days > 0) {
+    return `${days} ${days === 1 ? 'day' : 'days'} ${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  if (hours > 0) {
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
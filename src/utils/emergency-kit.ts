@@ -0,0 +1,45 @@
+/**
+ * Emergency Kit
+ *
+ * Printable sheet with everything needed to recover an account:
+ * - Email the account is registered with
+ * - Recovery code, numbered word by word
+ * - Instructions for using it
+ *
+ * SECURITY: Contains the recovery code - only ever handed to the system
+ * share sheet on the user's request (save to files or print), never stored
+ */
+
+import ENV from '@/config/env';
+
+/**
+ * Build the emergency kit as plain text
+ * @param email - Account email
+ * @param recoveryCode - Space-separated recovery words
+ */
+export function buildEmergencyKit(
+  email: string,
+  recoveryCode: string,
+  createdAt: Date = new Date()
+): string {
+  const words = recoveryCode
+    .split(' ')
+    .map((word, index) => `${String(index + 1).padStart(2, ' ')}. ${word}`);
+
+  return [
+    `${ENV.APP_NAME} Emergency Kit`,
+    `Created: ${createdAt.toLocaleDateString()}`,
+    '',
+    `Email: ${email}`,
+    '',
+    'Recovery code:',
+    ...words,
+    '',
+    'If you forget your master password, choose "Forgot master password?"',
+    `in ${ENV.APP_NAME}, enter your email and these words in order, then set`,
+    'a new master password.',
+    '',
+    'Keep this kit offline and private. Anyone with it can take over your',
+    'account. Creating a new recovery code makes this kit stop working.',
+  ].join('\n');
+}
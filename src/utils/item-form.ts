@@ -0,0 +1,258 @@
+/**
+ * Item Form Utilities
+ *
+ * Converts between the flat values edited in the item form and the
+ * typed item data that gets encrypted (shared by create and edit screens)
+ */
+
+import { parseTotpInput } from '@/crypto';
+import {
+  VaultItemType,
+  VaultItemData,
+  PasswordItemData,
+  SecureNoteData,
+  CreditCardData,
+} from '@/types';
+import {
+  isValidCardNumber,
+  isValidCardExpiry,
+  isCardExpired,
+  isValidCvv,
+  formatCardNumber,
+  getCardBrand,
+  getCvvLength,
+  normalizeExpiryYear,
+} from './validation';
+
+export interface ItemFormValues {
+  name: string;
+  // Password
+  username: string;
+  password: string;
+  url: string;
+  totp: string; // otpauth:// link or base32 key as typed
+  // Secure note
+  content: string;
+  // Credit card
+  cardholderName: string;
+  cardNumber: string; // Formatted with spaces
+  expiryMonth: string;
+  expiryYear: string;
+  cvv: string;
+  // Password and card
+  notes: string;
+}
+
+export type ItemFormErrors = Partial<Record<keyof ItemFormValues | 'expiry', string>>;
+
+export const EMPTY_ITEM_FORM: ItemFormValues = {
+  name: '',
+  username: '',
+  password: '',
+  url: '',
+  totp: '',
+  content: '',
+  cardholderName: '',
+  cardNumber: '',
+  expiryMonth: '',
+  expiryYear: '',
+  cvv: '',
+  notes: '',
+};
+
+/**
+ * Pre-fill the form from a decrypted item
+ */
+export function getItemFormValues(
+  type: VaultItemType,
+  name: string,
+  data: VaultItemData
+): ItemFormValues {
+  if (type === VaultItemType.NOTE) {
+    return { ...EMPTY_ITEM_FORM, name, content: (data as SecureNoteData).content };
+  }
+
+  if (type === VaultItemType.CARD) {
+    const card = data as CreditCardData;
+    return {
+      ...EMPTY_ITEM_FORM,
+      name,
+      cardholderName: card.cardholderName,
+      cardNumber: formatCardNumber(card.cardNumber),
+      expiryMonth: card.expiryMonth,
+      expiryYear: card.expiryYear,
+      cvv: card.cvv,
+      notes: card.notes ?? '',
+    };
+  }
+
+  const login = data as PasswordItemData;
+  return {
+    ...EMPTY_ITEM_FORM,
+    name,
+    username: login.username,
+    password: login.password,
+    url: login.url ?? '',
+    totp: login.totp ? formatTotpInput(login.totp) : '',
+    notes: login.notes ?? '',
+  };
+}
+
+/**
+ * Check whether any field of the item's type differs from the original
+ */
+export function hasItemFormChanges(
+  type: VaultItemType,
+  original: ItemFormValues,
+  current: ItemFormValues
+): boolean {
+  return getTypeFields(type).some(
+    (field) => original[field].trim() !== current[field].trim()
+  );
+}
+
+/**
+ * Validate the form and build the item data to encrypt
+ * @param options.allowExpiredCard - Accept a past expiry (editing a saved card)
+ * @returns errors keyed by field, or the item data when valid
+ */
+export function buildItemData(
+  type: VaultItemType,
+  values: ItemFormValues,
+  options: { allowExpiredCard?: boolean } = {}
+): { errors: ItemFormErrors; data?: VaultItemData } {
+  const errors: ItemFormErrors = {};
+
+  if (!values.name.trim()) {
+    errors.name = 'Please enter a name for this item';
+  }
+
+  if (type === VaultItemType.NOTE) {
+    if (!values.content.trim()) {
+      errors.content = 'Please enter the note';
+    }
+    return Object.keys(errors).length > 0
+      ? { errors }
+      : { errors, data: { content: values.content } };
+  }
+
+  if (type === VaultItemType.CARD) {
+    const cvvLength = getCvvLength(getCardBrand(values.cardNumber));
+
+    if (!values.cardholderName.trim()) {
+      errors.cardholderName = 'Please enter the cardholder name';
+    }
+    if (!isValidCardNumber(values.cardNumber)) {
+      errors.cardNumber = 'Please enter a valid card number';
+    }
+    if (!isValidCardExpiry(values.expiryMonth, values.expiryYear)) {
+      errors.expiry = 'Invalid date';
+    } else if (
+      !options.allowExpiredCard &&
+      isCardExpired(values.expiryMonth, values.expiryYear)
+    ) {
+      errors.expiry = 'This card has expired';
+    }
+    if (!isValidCvv(values.cvv, values.cardNumber)) {
+      errors.cvv = `Must be ${cvvLength} digits`;
+    }
+
+    return Object.keys(errors).length > 0
+      ? { errors }
+      : {
+          errors,
+          data: {
+            cardholderName: values.cardholderName.trim(),
+            cardNumber: values.cardNumber.replace(/\D/g, ''),
+            expiryMonth: values.expiryMonth.padStart(2, '0'),
+            expiryYear: normalizeExpiryYear(values.expiryYear),
+            cvv: values.cvv,
+            notes: values.notes || undefined,
+          },
+        };
+  }
+
+  // Imported authenticator accounts may have only a TOTP key
+  if (!values.password && !values.totp.trim()) {
+    errors.password = 'Please enter a password';
+  }
+
+  let totp: PasswordItemData['totp'];
+  if (values.totp.trim()) {
+    try {
+      totp = parseTotpInput(values.totp);
+    } catch (error: any) {
+      errors.totp = error.message;
+    }
+  }
+
+  return Object.keys(errors).length > 0
+    ? { errors }
+    : {
+        errors,
+        data: {
+          username: values.username,
+          password: values.password,
+          url: values.url || undefined,
+          notes: values.notes || undefined,
+          totp,
+        },
+      };
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Form fields used by each item type
+ */
+function getTypeFields(type: VaultItemType): (keyof ItemFormValues)[] {
+  if (type === VaultItemType.NOTE) {
+    return ['name', 'content'];
+  }
+  if (type === VaultItemType.CARD) {
+    return [
+      'name',
+      'cardholderName',
+      'cardNumber',
+      'expiryMonth',
+      'expiryYear',
+      'cvv',
+      'notes',
+    ];
+  }
+  return ['name', 'username', 'password', 'url', 'totp', 'notes'];
+}
+
+/**
+ * Show stored authenticator settings as editable text: the bare key for
+ * default settings, otherwise an otpauth:// link that keeps them
+ */
+function formatTotpInput(totp: NonNullable<PasswordItemData['totp']>): string {
+  const isDefault =
+    totp.algorithm === 'SHA1' &&
+    totp.digits === 6 &&
+    totp.period === 30 &&
+    totp.encoding === 'decimal' &&
+    !totp.issuer &&
+    !totp.accountName;
+  if (isDefault) {
+    return totp.secret;
+  }
+
+  const label = [totp.issuer, totp.accountName].filter(Boolean).join(':');
+  const params: Record<string, string> = { secret: totp.secret };
+
+  if (totp.issuer) params.issuer = totp.issuer;
+  if (totp.encoding === 'steam') {
+    params.encoder = 'steam';
+  } else {
+    params.algorithm = totp.algorithm;
+    params.digits = String(totp.digits);
+  }
+  params.period = String(totp.period);
+
+  const query = Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `otpauth://totp/${encodeURIComponent(label)}?${query}`;
+}
@@ -0,0 +1,119 @@
+/**
+ * Password Strength Estimation
+ *
+ * Pattern-aware estimate (zxcvbn): common passwords and words, keyboard
+ * walks, dates, repeats, sequences and l33t substitutions are all counted
+ * as the guesses they really cost, not as extra character classes.
+ * Personal details (email, name, username) are checked as words too.
+ */
+
+import { ZxcvbnFactory, ZxcvbnResult } from '@zxcvbn-ts/core';
+import * as zxcvbnCommonPackage from '@zxcvbn-ts/language-common';
+import * as zxcvbnEnPackage from '@zxcvbn-ts/language-en';
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore; // 0 (guessable) to 4 (very unguessable)
+  label: string;
+  color: string;
+  guesses: number; // Estimated guesses needed
+  crackTime: string; // e.g. "3 hours" for an offline attack on a slow hash
+  warning: string | null;
+  suggestions: string[];
+}
+
+const SCORE_LABELS: Record<PasswordScore, { label: string; color: string }> = {
+  0: { label: 'Very weak', color: '#EF4444' },
+  1: { label: 'Weak', color: '#F97316' },
+  2: { label: 'Fair', color: '#F59E0B' },
+  3: { label: 'Strong', color: '#10B981' },
+  4: { label: 'Very strong', color: '#059669' },
+};
+
+// Lowest score accepted for a master password ("Strong")
+export const MIN_MASTER_PASSWORD_SCORE: PasswordScore = 3;
+
+// Item passwords scoring below this are listed in the weak password report
+export const MIN_ITEM_PASSWORD_SCORE: PasswordScore = 3;
+
+// Built on first use - loading the dictionaries takes a moment
+let estimator: ZxcvbnFactory | null = null;
+
+function getEstimator(): ZxcvbnFactory {
+  if (!estimator) {
+    estimator = new ZxcvbnFactory({
+      translations: zxcvbnEnPackage.translations,
+      graphs: zxcvbnCommonPackage.adjacencyGraphs,
+      dictionary: {
+        ...zxcvbnCommonPackage.dictionary,
+        ...zxcvbnEnPackage.dictionary,
+      },
+    });
+  }
+  return estimator;
+}
+
+/**
+ * Estimate how hard a password is to guess
+ * @param userInputs - Personal details the password should not be built from
+ */
+export function getPasswordStrength(
+  password: string,
+  userInputs: (string | undefined | null)[] = []
+): PasswordStrength {
+  const result: ZxcvbnResult = getEstimator().check(
+    password,
+    getUserInputWords(userInputs)
+  );
+
+  return {
+    score: result.score,
+    ...SCORE_LABELS[result.score],
+    guesses: result.guesses,
+    crackTime: result.crackTimes.offlineSlowHashingXPerSecond.display,
+    warning: result.feedback.warning,
+    suggestions: result.feedback.suggestions,
+  };
+}
+
+/**
+ * Check a new master password against the minimum score
+ * @returns Error message to show, or null if the password is strong enough
+ */
+export function getMasterPasswordError(
+  password: string,
+  userInputs: (string | undefined | null)[] = []
+): string | null {
+  const strength = getPasswordStrength(password, userInputs);
+  if (strength.score >= MIN_MASTER_PASSWORD_SCORE) {
+    return null;
+  }
+
+  return strength.warning
+    ? `${strength.warning}. Choose a stronger password.`
+    : 'Password is too easy to guess. Choose a stronger password.';
+}
+
+// ===== Helper Functions =====
+
+/**
+ * Whole inputs plus their parts ("jane.doe@mail.com" → jane, doe, mail...)
+ */
+function getUserInputWords(userInputs: (string | undefined | null)[]): string[] {
+  const words = new Set<string>();
+
+  for (const input of userInputs) {
+    const value = input?.trim().toLowerCase();
+    if (!value) continue;
+
+    words.add(value);
+    for (const part of value.split(/[\s@.,_+:/-]+/)) {
+      if (part.length >= 3) {
+        words.add(part);
+      }
+    }
+  }
+
+  return Array.from(words);
+}
@@ -10,51 +10,6 @@ export function isValidEmail(email: string): boolean {
   return emailRegex.test(email);
 }
 
-/**
- * Validate password strength
- * Requirements:
- * - At least 8 characters
- * - At least one uppercase letter
- * - At least one lowercase letter
- * - At least one number
- */
-export function isStrongPassword(password: string): boolean {
-  if (password.length < 8) return false;
-
-  const hasUpperCase = /[A-Z]/.test(password);
-  const hasLowerCase = /[a-z]/.test(password);
-  const hasNumber = /[0-9]/.test(password);
-
-  return hasUpperCase && hasLowerCase && hasNumber;
-}
-
-/**
- * Get password strength label
- */
-export function getPasswordStrength(password: string): {
-  strength: 'weak' | 'medium' | 'strong';
-  label: string;
-} {
-  if (password.length < 8) {
-    return { strength: 'weak', label: 'Too short' };
-  }
-
-  let score = 0;
-  if (/[a-z]/.test(password)) score++;
-  if (/[A-Z]/.test(password)) score++;
-  if (/[0-9]/.test(password)) score++;
-  if (/[^a-zA-Z0-9]/.test(password)) score++;
-  if (password.length >= 12) score++;
-
-  if (score < 3) {
-    return { strength: 'weak', label: 'Weak' };
-  } else if (score < 4) {
-    return { strength: 'medium', label: 'Medium' };
-  } else {
-    return { strength: 'strong', label: 'Strong' };
-  }
-}
-
 /**
  * Validate credit card number (Luhn algorithm)
  */
@@ -85,10 +40,113 @@ export function isValidCardNumber(cardNumber: string): boolean {
   return sum % 10 === 0;
 }
 
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+export const CARD_BRAND_LABELS: Record<CardBrand, string> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  amex: 'American Express',
+  discover: 'Discover',
+  unknown: 'Card',
+};
+
+/**
+ * Detect card brand from the number prefix (IIN ranges)
+ */
+export function getCardBrand(cardNumber: string): CardBrand {
+  const digits = cardNumber.replace(/\D/g, '');
+
+  if (/^4/.test(digits)) return 'visa';
+  if (/^(5[1-5]|2(2[2-9]|[3-6]\d|7[01]|720))/.test(digits)) return 'mastercard';
+  if (/^3[47]/.test(digits)) return 'amex';
+  if (/^(6011|65|64[4-9])/.test(digits)) return 'discover';
+  return 'unknown';
+}
+
 /**
  * Format credit card number with spaces
+ * (American Express uses 4-6-5 grouping, other brands groups of 4)
  */
 export function formatCardNumber(cardNumber: string): string {
   const digits = cardNumber.replace(/\D/g, '');
+
+  if (getCardBrand(digits) === 'amex') {
+    return [digits.slice(0, 4), digits.slice(4, 10), digits.slice(10, 15)]
+      .filter(Boolean)
+      .join(' ');
+  }
+
   return digits.replace(/(\d{4})/g, '$1 ').trim();
 }
+
+/**
+ * Hide all but the last 4 digits
+ */
+export function maskCardNumber(cardNumber: string): string {
+  const digits = cardNumber.replace(/\D/g, '');
+  return `•••• ${digits.slice(-4)}`;
+}
+
+/**
+ * Expected CVV length for a brand (4-digit CID on American Express)
+ */
+export function getCvvLength(brand: CardBrand): number {
+  return brand === 'amex' ? 4 : 3;
+}
+
+/**
+ * Validate CVV length for the card's brand
+ */
+export function isValidCvv(cvv: string, cardNumber: string): boolean {
+  const length = getCvvLength(getCardBrand(cardNumber));
+  return new RegExp(`^\\d{${length}}$`).test(cvv);
+}
+
+/**
+ * Validate card expiry format (month 1-12, 2- or 4-digit year, at most
+ * 20 years ahead) - see isCardExpired for the not-in-the-past check
+ */
+export function isValidCardExpiry(
+  month: string,
+  year: string,
+  now: Date = new Date()
+): boolean {
+  if (!/^\d{1,2}$/.test(month) || !/^(\d{2}|\d{4})$/.test(year)) {
+    return false;
+  }
+
+  const monthNumber = parseInt(month, 10);
+  if (monthNumber < 1 || monthNumber > 12) {
+    return false;
+  }
+
+  const yearNumber = parseInt(normalizeExpiryYear(year), 10);
+  return yearNumber <= now.getFullYear() + 20;
+}
+
+/**
+ * Check whether a card's expiry date has passed
+ * Cards are valid through the last day of the expiry month
+ */
+export function isCardExpired(
+  month: string,
+  year: string,
+  now: Date = new Date()
+): boolean {
+  const monthNumber = parseInt(month, 10);
+  const yearNumber = parseInt(normalizeExpiryYear(year), 10);
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+
+  return (
+    yearNumber < currentYear ||
+    (yearNumber === currentYear && monthNumber < currentMonth)
+  );
+}
+
+/**
+ * Expand a 2-digit expiry year to 4 digits (25 -> 2025)
+ */
+export function normalizeExpiryYear(year: string): string {
+  return year.length === 2 ? `20${year}` : year;
+}
@@ -0,0 +1,71 @@
+/**
+ * Vault Permissions
+ *
+ * What each member role may do in a shared vault:
+ * - owner: everything, including deleting the vault
+ * - manager: edit items and vault details, invite/remove members below manager
+ * - editor: create, edit and delete items
+ * - viewer: read-only
+ *
+ * The server enforces the same rules - these checks keep the UI honest
+ */
+
+import { Vault, VaultRole } from '@/types';
+
+export const VAULT_ROLE_LABELS: Record<VaultRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const ROLE_RANK: Record<VaultRole, number> = {
+  owner: 3,
+  manager: 2,
+  editor: 1,
+  viewer: 0,
+};
+
+/**
+ * Caller's role in a vault (personal vaults have no role = owner)
+ */
+export function getVaultRole(vault?: Vault | null): VaultRole {
+  return vault?.role ?? 'owner';
+}
+
+export function canEditItems(role: VaultRole): boolean {
+  return role !== 'viewer';
+}
+
+export function canManageMembers(role: VaultRole): boolean {
+  return role === 'owner' || role === 'manager';
+}
+
+export function canEditVault(role: VaultRole): boolean {
+  return role === 'owner' || role === 'manager';
+}
+
+export function canDeleteVault(role: VaultRole): boolean {
+  return role === 'owner';
+}
+
+/**
+ * Check whether an actor may change or remove a member
+ * (only members ranked below the actor; nobody manages the owner)
+ */
+export function canManageMember(actor: VaultRole, member: VaultRole): boolean {
+  return canManageMembers(actor) && ROLE_RANK[member] < ROLE_RANK[actor];
+}
+
+/**
+ * Roles an actor may give to a member (ownership is not transferable)
+ */
+export function getAssignableRoles(actor: VaultRole): VaultRole[] {
+  if (!canManageMembers(actor)) {
+    return [];
+  }
+
+  return (['manager', 'editor', 'viewer'] as VaultRole[]).filter(
+    (role) => ROLE_RANK[role] < ROLE_RANK[actor]
+  );
+}